@@ -0,0 +1,124 @@
+// scripts/simulate.mjs
+
+/**
+ * Ejecuta partidas simuladas sin interfaz para pruebas de balance.
+ *
+ *   npm run simulate -- --scenario default --games 50 --bot greedy --seed 1234
+ *
+ * Opciones: --scenario <id>, --games <n>, --bot <greedy|random>, --seed <n>,
+ *           --max-turns <n>, --json (informe completo en JSON), --verbose (logs del motor),
+ *           --min-win-rate <%>, --max-win-rate <%> (falla si las victorias quedan fuera del rango)
+ *
+ *   npm run simulate:check   # semilla fija y rango esperado: detecta cambios de balance
+ *
+ * El motor se carga con el servidor de Vite en modo SSR, que resuelve TypeScript
+ * y los JSON de escenario igual que en el navegador.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const publicDir = path.join(root, 'public');
+
+function parseArgs(argv) {
+    const args = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (!argv[i].startsWith('--')) continue;
+        const key = argv[i].slice(2);
+        const next = argv[i + 1];
+        if (next === undefined || next.startsWith('--')) {
+            args[key] = true;
+        } else {
+            args[key] = next;
+            i++;
+        }
+    }
+    return args;
+}
+
+// Almacenamiento en memoria: el motor guarda perfil y ajustes en localStorage
+class MemoryStorage {
+    constructor() { this.items = new Map(); }
+    get length() { return this.items.size; }
+    key(index) { return [...this.items.keys()][index] ?? null; }
+    getItem(key) { return this.items.has(key) ? this.items.get(key) : null; }
+    setItem(key, value) { this.items.set(key, String(value)); }
+    removeItem(key) { this.items.delete(key); }
+    clear() { this.items.clear(); }
+}
+
+function installBrowserShims() {
+    globalThis.localStorage ??= new MemoryStorage();
+    globalThis.sessionStorage ??= new MemoryStorage();
+
+    // Las rutas absolutas ('/scenarios/...') se sirven desde public/, como hace Vite
+    const nodeFetch = globalThis.fetch;
+    globalThis.fetch = async (input, init) => {
+        const url = typeof input === 'string' ? input : input.url;
+        if (url.startsWith('/')) {
+            const filePath = path.join(publicDir, decodeURIComponent(url.split('?')[0]));
+            if (!filePath.startsWith(publicDir) || !fs.existsSync(filePath)) {
+                return new Response('Not found', { status: 404 });
+            }
+            return new Response(fs.readFileSync(filePath), { status: 200 });
+        }
+        return nodeFetch(input, init);
+    };
+}
+
+const args = parseArgs(process.argv.slice(2));
+
+if (!args.verbose) {
+    console.log = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+}
+const print = (text) => process.stdout.write(`${text}\n`);
+
+installBrowserShims();
+
+const server = await createServer({
+    root,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+});
+
+let exitCode = 0;
+try {
+    const { simulationRunner } = await server.ssrLoadModule('/src/engine/SimulationRunner.ts');
+    const { botPolicies } = await server.ssrLoadModule('/src/engine/BotPolicies.ts');
+
+    const botId = args.bot ?? 'greedy';
+    const policy = botPolicies[botId];
+    if (!policy) {
+        throw new Error(`Bot desconocido '${botId}'. Disponibles: ${Object.keys(botPolicies).join(', ')}`);
+    }
+
+    const report = await simulationRunner.run({
+        scenarioId: args.scenario ?? 'default',
+        games: args.games ? Number(args.games) : undefined,
+        seed: args.seed ? Number(args.seed) : undefined,
+        maxTurns: args['max-turns'] ? Number(args['max-turns']) : undefined,
+        policy,
+    });
+
+    print(args.json ? JSON.stringify(report, null, 2) : simulationRunner.formatReport(report));
+
+    const winPercent = report.winRate * 100;
+    const minWinRate = args['min-win-rate'] !== undefined ? Number(args['min-win-rate']) : -Infinity;
+    const maxWinRate = args['max-win-rate'] !== undefined ? Number(args['max-win-rate']) : Infinity;
+    if (winPercent < minWinRate || winPercent > maxWinRate) {
+        console.error(`❌ Victorias ${winPercent.toFixed(1)}% fuera del rango esperado [${args['min-win-rate'] ?? '-'}, ${args['max-win-rate'] ?? '-'}]`);
+        exitCode = 1;
+    }
+} catch (error) {
+    console.error('❌ Simulación fallida:', error);
+    exitCode = 1;
+} finally {
+    await server.close();
+}
+process.exit(exitCode);
@@ -24,12 +24,24 @@ import { NarrativeModal } from './components/NarrativeModal';
 import { chapterNarrativeSystem } from './engine/ChapterNarrativeSystem';
 import type { NarrativeElement, ChapterNarrativeConfig } from './engine/ChapterNarrativeSystem';
 import { GameLayer, useLayer } from './engine/LayerManager';
-import { deckManager } from './engine/DeckManager';
+import { ecoAI } from './engine/EcoAI';
 import { assetManager } from './config/assets';
 import { audioManager } from './engine/AudioManager';
 import AudioControls from './components/AudioControls';
+import { ReplayControls } from './components/ReplayControls';
+import { ChoicePrompt } from './components/ChoicePrompt';
+import { ComboBar } from './components/ComboBar';
+import { EnvironmentTray } from './components/EnvironmentTray';
+import { replayPlayer } from './engine/ReplayPlayer';
+import { gameClock } from './engine/GameClock';
+import { gameFeedbackSystem } from './engine/GameFeedbackSystem';
+import { undoSystem } from './engine/UndoSystem';
+import type { ReplayRecording } from './engine/ActionRecorder';
 // import { CSSCards } from './components/CSSCards'; // Commented out - using only PixiJS VFX
 
+// Velocidades de avance rápido del reloj del juego
+const GAME_SPEEDS = [1, 2, 4];
+
 // Import debug tools in development
 if (import.meta.env.DEV) {
   import('./debug/audioTest');
@@ -65,10 +77,25 @@ const AppContent: React.FC = () => {
     const [eventVisual, setEventVisual] = useState<{ visible: boolean; card: CardType | null; event: any | null }>({ visible: false, card: null, event: null });
     const [narrativeModal, setNarrativeModal] = useState<{ visible: boolean; element: NarrativeElement | null; config: ChapterNarrativeConfig | null }>({ visible: false, element: null, config: null });
     const [showConfigModal, setShowConfigModal] = useState(false);
+    const [gameSpeed, setGameSpeed] = useState(gameClock.speed);
     // audioConfig removed - not used in component
     const [, setTick] = useState(0); // Used to force re-renders
 
+    // Animaciones y sonidos de las cartas jugadas, en respuesta a los eventos del motor
+    useEffect(() => {
+        gameFeedbackSystem.enable();
+        return () => gameFeedbackSystem.disable();
+    }, []);
+
+    // Al volver al menú se detiene cualquier repetición en curso
     useEffect(() => {
+        if (!inGame) {
+            replayPlayer.stop();
+        }
+    }, [inGame]);
+
+    useEffect(() => {
+        const unsubscribeUndo = undoSystem.subscribe(() => setTick(tick => tick + 1));
         const unsubscribe = gameStateManager.subscribe(() => {
             setTick(tick => tick + 1);
             if (gameStateManager.phase === GamePhase.EVENT && turnManager.currentEvent) {
@@ -102,6 +129,7 @@ const AppContent: React.FC = () => {
         
         return () => {
             unsubscribe();
+            unsubscribeUndo();
             unsubscribeNarrative();
         };
     }, []);
@@ -148,7 +176,20 @@ const AppContent: React.FC = () => {
         };
     }, []);
 
-    const handleStartGame = async () => {
+    // Ctrl+Z / Cmd+Z deshace la última acción del turno
+    useEffect(() => {
+        if (!inGame) return;
+        const handleUndoKey = (event: KeyboardEvent) => {
+            if (event.code === 'KeyZ' && (event.ctrlKey || event.metaKey) && undoSystem.canUndo && !replayPlayer.isActive) {
+                event.preventDefault();
+                turnManager.undoLastAction();
+            }
+        };
+        document.addEventListener('keydown', handleUndoKey);
+        return () => document.removeEventListener('keydown', handleUndoKey);
+    }, [inGame]);
+
+    const prepareGameSession = async () => {
         setInGame(true);
         setEventMessage(null);
         setRepairMode(false);
@@ -195,6 +236,14 @@ const AppContent: React.FC = () => {
             console.log('🎭 App: Mostrando evento visual', event.event);
             setEventVisual({ visible: true, card: eventCard, event });
         };
+        turnManager.onEventDismissed = () => {
+            setEventVisual({ visible: false, card: null, event: null });
+        };
+    };
+
+    const handleStartGame = async () => {
+        replayPlayer.stop();
+        await prepareGameSession();
         
         // Show start overlay
         setTurnOverlay({ visible: true, text: 'Comienza la partida' });
@@ -214,6 +263,32 @@ const AppContent: React.FC = () => {
         }, 1500); // Esperar a que termine la animación inicial
     };
 
+    const handleResumeGame = async () => {
+        await prepareGameSession();
+        
+        // La partida restaurada ya tiene sus cartas repartidas: no se repite la narrativa inicial
+        setTurnOverlay({ visible: true, text: `Partida reanudada - Turno ${gameStateManager.turn}` });
+        setTimeout(() => setTurnOverlay({ visible: false, text: '' }), 1200);
+    };
+
+    const handleWatchReplay = async (recording: ReplayRecording) => {
+        const started = await replayPlayer.start(recording);
+        if (!started) {
+            modalContext.showMessage('No se pudo cargar la repetición.', { title: 'Repetición', type: 'error' });
+            return;
+        }
+        await prepareGameSession();
+        
+        setTurnOverlay({ visible: true, text: 'Repetición' });
+        setTimeout(() => setTurnOverlay({ visible: false, text: '' }), 1200);
+        
+        // Sin narrativa: se reparte y la reproducción arranca directamente
+        setTimeout(() => {
+            turnManager.completeGameStart();
+            replayPlayer.play();
+        }, 1500);
+    };
+
     const handleContinue = () => {
         audioManager.playEffect('menu-select', 0.7);
         setEventMessage(null);
@@ -297,7 +372,7 @@ const AppContent: React.FC = () => {
                     borderRadius: '8px',
                     overflow: 'hidden'
                 }}>
-                    <MainMenu onStartGame={handleStartGame} />
+                    <MainMenu onStartGame={handleStartGame} onResumeGame={handleResumeGame} onWatchReplay={handleWatchReplay} />
                 </div>
             ) : (
                 <div style={{ 
@@ -319,6 +394,30 @@ const AppContent: React.FC = () => {
                         gap: '6px',
                         alignItems: 'center'
                     }}>
+                        {/* Velocidad del juego */}
+                        <button
+                            style={{
+                                height: '18px',
+                                padding: '0 6px',
+                                borderRadius: '9px',
+                                background: 'rgba(51, 65, 85, 0.8)',
+                                border: `1px solid rgba(146, 64, 14, 0.5)`,
+                                color: colors.gold,
+                                fontSize: '10px',
+                                cursor: 'pointer',
+                                backdropFilter: 'blur(4px)',
+                                boxShadow: '0 1px 3px rgba(0,0,0,0.3)'
+                            }}
+                            onClick={() => {
+                                const next = GAME_SPEEDS[(GAME_SPEEDS.indexOf(gameSpeed) + 1) % GAME_SPEEDS.length];
+                                gameClock.setSpeed(next);
+                                setGameSpeed(next);
+                            }}
+                            title="Velocidad del juego"
+                        >
+                            ⏩ {gameSpeed}x
+                        </button>
+                        
                         {/* Botón de Configuración */}
                         <button
                             style={{
@@ -444,8 +543,8 @@ const AppContent: React.FC = () => {
                            justifyContent: 'center',
                            gap: '12px'
                          }}>
-                        {/* Mostrar máximo 5 cartas superpuestas para representar el mazo */}
-                        {Array.from({ length: Math.min(5, Math.max(1, deckManager.getEcoDeckCount())) }, (_, i) => (
+                        {/* Una carta boca abajo por cada carta en la mano del Eco */}
+                        {Array.from({ length: ecoAI.hand.length }, (_, i) => (
                             <div
                                 key={i}
                                 style={{
@@ -534,6 +633,27 @@ const AppContent: React.FC = () => {
                                 {gameStateManager.pa === 0 ? 'FIN TURNO' : `FIN (${gameStateManager.pa} AP)`}
                             </StyledButton>
                         )}
+
+                        {/* Deshacer la última acción del turno (si el capítulo lo permite) */}
+                        {gameStateManager.phase === GamePhase.PLAYER_ACTION && undoSystem.isEnabled && !replayPlayer.isActive && (
+                            <StyledButton
+                                onClick={() => {
+                                    audioManager.playEffect('menu-select', 0.6);
+                                    turnManager.undoLastAction();
+                                }}
+                                disabled={!undoSystem.canUndo}
+                                size="sm"
+                                variant="secondary"
+                                title={undoSystem.nextUndoLabel ? `Deshacer: ${undoSystem.nextUndoLabel} (Ctrl+Z)` : 'Nada que deshacer'}
+                                style={{
+                                    fontSize: '10px',
+                                    padding: '6px 12px',
+                                    width: '110px'
+                                }}
+                            >
+                                ↩ DESHACER
+                            </StyledButton>
+                        )}
                     </div>
                     
                     {/* Imagen del ECO - Solo retrato sin panel */}
@@ -816,6 +936,7 @@ const AppContent: React.FC = () => {
                             turnManager.startGame();
                             handleStartGame();
                         }}
+                        onWatchReplay={handleWatchReplay}
                         onContinueToNext={async () => {
                             const success = await chapterManager.goToNextChapter();
                             if (success) {
@@ -843,15 +964,23 @@ const AppContent: React.FC = () => {
                         onClose={() => {
                             console.log('🎭 App: Cerrando evento visual');
                             setEventVisual({ visible: false, card: null, event: null });
-                            // Descartar la carta del evento cuando se cierre el modal
-                            if (turnManager.currentEventCard) {
-                                // deckManager.discard([turnManager.currentEventCard]); // Se maneja en TurnManager
-                                turnManager.currentEventCard = null;
-                                turnManager.currentDynamicEvent = null;
-                            }
+                            // Descartar la carta del evento cuando se cierre el modal (queda grabado para repeticiones)
+                            turnManager.dismissEvent();
                         }}
                     />
                     
+                    {/* Controles de repetición */}
+                    <ReplayControls onExit={() => setInGame(false)} />
+                    
+                    {/* Cartas marcadas para jugar una combinación */}
+                    <ComboBar />
+                    
+                    {/* Eventos ambientales en juego */}
+                    <EnvironmentTray />
+                    
+                    {/* Elecciones pendientes de los efectos (CHOICE) */}
+                    <ChoicePrompt />
+                    
                     {/* Narrative Modal */}
                     {narrativeModal.visible && narrativeModal.element && narrativeModal.config && (
                         <NarrativeModal
@@ -24,6 +24,8 @@ import type { Card } from '../engine/types';
 import { colors, createCompactStoneButtonStyle } from '../utils/styles';
 import { useLayer, GameLayer, layerSystem } from '../engine/LayerManager';
 import { vfxController } from '../engine/VFXController';
+import { legalActionSystem } from '../engine/LegalActionSystem';
+import { gameStateManager } from '../engine/GameStateManager';
 // import { Z_INDEX } from '../constants/zIndex'; // Reemplazado por LayerManager
 
 // Tipos de acciones disponibles en el menú
@@ -32,6 +34,7 @@ export type CardActionType =
   | 'research'  // Investigar/Enfocar (descarta y roba nueva)
   | 'discard'   // Descartar sin efecto
   | 'sacrifice' // Sacrificar para efecto especial
+  | 'combo'     // Marcar/desmarcar la carta para una combinación
   | 'cancel';   // Cancelar y cerrar menú
 
 // Configuración de una opción del menú
@@ -43,6 +46,7 @@ export interface MenuOption {
   hoverColor: string;     // Color al hacer hover
   icon?: string;          // Emoji o símbolo opcional
   enabled: boolean;       // Si la opción está disponible
+  disabledReason?: string; // Motivo por el que no se puede usar (se muestra atenuada)
   shortkey?: string;      // Tecla de acceso rápido (ej: "U", "R")
 }
 
@@ -95,6 +99,15 @@ const DEFAULT_OPTIONS: Record<CardActionType, Omit<MenuOption, 'enabled'>> = {
     icon: '⚔',
     shortkey: 'S'
   },
+  combo: {
+    action: 'combo',
+    label: 'COMBINAR',
+    description: 'Marcar la carta para jugarla en una combinación',
+    color: '#b69552',
+    hoverColor: '#9a7d43',
+    icon: '➕',
+    shortkey: 'M'
+  },
   cancel: {
     action: 'cancel',
     label: 'CANCELAR',
@@ -171,11 +184,26 @@ export const CardContextMenu: React.FC<CardContextMenuProps> = ({
       cardValue: card.value 
     });
 
+    // Jugar y enfocar (investigar/descartar) según las acciones legales del motor
+    const playCheck = legalActionSystem.checkCardPlay(card);
+    const focusCheck = legalActionSystem.checkFocus(card);
+    const comboCheck = legalActionSystem.checkComboCard(card);
+    const isMarked = gameStateManager.selectedCards.some(selected => selected.id === card.id);
+    const playCost = legalActionSystem.describeCost(legalActionSystem.getCardCost(card));
+
     const options: MenuOption[] = [
-      { ...DEFAULT_OPTIONS.play, enabled: true },      // Siempre disponible
-      { ...DEFAULT_OPTIONS.research, enabled: true },  // Siempre disponible
-      { ...DEFAULT_OPTIONS.discard, enabled: true },   // Siempre disponible
+      {
+        ...DEFAULT_OPTIONS.play,
+        description: `${DEFAULT_OPTIONS.play.description} (Coste: ${playCost})`,
+        enabled: playCheck.allowed,
+        disabledReason: playCheck.reason
+      },
+      { ...DEFAULT_OPTIONS.research, enabled: focusCheck.allowed, disabledReason: focusCheck.reason },
+      { ...DEFAULT_OPTIONS.discard, enabled: focusCheck.allowed, disabledReason: focusCheck.reason },
       { ...DEFAULT_OPTIONS.sacrifice, enabled: false }, // Solo para cartas especiales
+      isMarked
+        ? { ...DEFAULT_OPTIONS.combo, label: 'DESMARCAR', description: 'Quitar la carta de la combinación', icon: '➖', enabled: true }
+        : { ...DEFAULT_OPTIONS.combo, enabled: comboCheck.allowed, disabledReason: comboCheck.reason },
       { ...DEFAULT_OPTIONS.cancel, enabled: true }     // Siempre disponible
     ];
 
@@ -294,6 +322,9 @@ export const CardContextMenu: React.FC<CardContextMenuProps> = ({
 
   const availableOptions = getAvailableOptions();
   const enabledOptions = availableOptions.filter(opt => opt.enabled);
+  // Las opciones bloqueadas por el estado de juego se muestran atenuadas con su motivo
+  const visibleOptions = availableOptions.filter(opt => opt.enabled || opt.disabledReason);
+  const hoveredOption = availableOptions.find(opt => opt.action === hoveredAction);
 
   log('info', `Rendering menu with ${enabledOptions.length} enabled options at (${position.x}, ${position.y})`);
 
@@ -357,11 +388,11 @@ export const CardContextMenu: React.FC<CardContextMenuProps> = ({
         */}
 
         {/* Opciones del menú en círculo */}
-        {enabledOptions.map((option, index) => {
-          const angle = (index / enabledOptions.length) * 2 * Math.PI - Math.PI / 2;
+        {visibleOptions.map((option, index) => {
+          const angle = (index / visibleOptions.length) * 2 * Math.PI - Math.PI / 2;
           const x = Math.cos(angle) * radius;
           const y = Math.sin(angle) * radius;
-          const isHovered = hoveredAction === option.action;
+          const isHovered = option.enabled && hoveredAction === option.action;
 
           return (
             <button
@@ -386,10 +417,15 @@ export const CardContextMenu: React.FC<CardContextMenuProps> = ({
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
-                gap: '6px'
+                gap: '6px',
+                opacity: option.enabled ? 1 : 0.4,
+                cursor: option.enabled ? 'pointer' : 'not-allowed',
+                filter: option.enabled ? undefined : 'grayscale(1)'
               }}
+              aria-disabled={!option.enabled}
               onMouseEnter={(e) => {
                 setHoveredAction(option.action);
+                if (!option.enabled) return;
                 log('info', `Hovered option: ${option.action}`);
                 // Custom hover effect with action-specific colors
                 e.currentTarget.style.borderColor = option.color;
@@ -399,14 +435,17 @@ export const CardContextMenu: React.FC<CardContextMenuProps> = ({
               }}
               onMouseLeave={(e) => {
                 setHoveredAction(null);
+                if (!option.enabled) return;
                 // Reset to default stone button style
                 e.currentTarget.style.borderColor = colors.stone.border;
                 e.currentTarget.style.color = colors.muted;
                 e.currentTarget.style.transform = 'scale(1) translateY(0)';
                 e.currentTarget.style.boxShadow = '0 10px 20px rgba(0,0,0,0.6), inset 0 -6px 12px rgba(0,0,0,0.55)';
               }}
-              onClick={() => handleActionSelect(option.action)}
-              title={`${option.description}${option.shortkey ? ` (Tecla: ${option.shortkey})` : ''}`}
+              onClick={() => option.enabled && handleActionSelect(option.action)}
+              title={option.enabled
+                ? `${option.description}${option.shortkey ? ` (Tecla: ${option.shortkey})` : ''}`
+                : option.disabledReason}
             >
               {option.icon && <span>{option.icon}</span>}
               <span>{option.label}</span>
@@ -449,6 +488,9 @@ export const CardContextMenu: React.FC<CardContextMenuProps> = ({
           }}
         >
           <div>{card.rank} de {card.suit}</div>
+          <div style={{ fontSize: '11px', fontWeight: 'normal', color: colors.gold }}>
+            Coste: {legalActionSystem.describeCost(legalActionSystem.getCardCost(card))}
+          </div>
           {hoveredAction && (
             <div style={{ 
               fontSize: '11px', 
@@ -456,7 +498,7 @@ export const CardContextMenu: React.FC<CardContextMenuProps> = ({
               opacity: 0.9,
               fontWeight: 'normal'
             }}>
-              {availableOptions.find(opt => opt.action === hoveredAction)?.description}
+              {hoveredOption?.enabled ? hoveredOption.description : hoveredOption?.disabledReason}
             </div>
           )}
         </div>
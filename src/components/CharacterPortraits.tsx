@@ -6,6 +6,10 @@ import { uiPositionManager } from '../engine/UIPositionManager';
 import { ecoStateSystem, type EcoState, type EcoStateConfig } from '../engine/EcoStateSystem';
 import { heroStateSystem, type HeroState, type HeroStateConfig } from '../engine/HeroStateSystem';
 import { gameStateManager } from '../engine/GameStateManager';
+import { statusEffectSystem, PERMANENT_DURATION, type ActiveStatus } from '../engine/StatusEffectSystem';
+import type { Combatant } from '../engine/GameEventBus';
+import { ecoDefenseSystem } from '../engine/EcoDefenseSystem';
+import { ecoAI } from '../engine/EcoAI';
 
 interface PortraitProps {
   width?: string;
@@ -14,6 +18,173 @@ interface PortraitProps {
   style?: React.CSSProperties;
 }
 
+// Estados alterados activos, superpuestos en la parte superior del retrato
+const StatusBadges: React.FC<{ target: Combatant }> = ({ target }) => {
+  const [statuses, setStatuses] = useState<ActiveStatus[]>(() => statusEffectSystem.getStatuses(target));
+
+  useEffect(() => {
+    return statusEffectSystem.subscribe(() => setStatuses(statusEffectSystem.getStatuses(target)));
+  }, [target]);
+
+  if (statuses.length === 0) return null;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '6px',
+      left: '6px',
+      right: '6px',
+      display: 'flex',
+      flexWrap: 'wrap',
+      gap: '4px',
+      zIndex: 2
+    }}>
+      {statuses.map(({ instance, definition }) => {
+        const durationText = instance.duration === PERMANENT_DURATION
+          ? 'Permanente'
+          : `${instance.duration} turno${instance.duration === 1 ? '' : 's'} restante${instance.duration === 1 ? '' : 's'}`;
+        return (
+          <div
+            key={definition.id}
+            title={`${definition.name}${instance.stacks > 1 ? ` x${instance.stacks}` : ''} (${durationText})\n${definition.description}`}
+            style={{
+              position: 'relative',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              width: '26px',
+              height: '26px',
+              fontSize: '15px',
+              borderRadius: '50%',
+              background: 'rgba(0, 0, 0, 0.7)',
+              border: `2px solid ${definition.kind === 'BUFF' ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)'}`
+            }}
+          >
+            {definition.icon}
+            {instance.stacks > 1 && (
+              <span style={{
+                position: 'absolute',
+                bottom: '-4px',
+                right: '-4px',
+                fontSize: '9px',
+                fontWeight: 'bold',
+                color: 'white',
+                background: 'rgba(0, 0, 0, 0.85)',
+                borderRadius: '6px',
+                padding: '0 3px'
+              }}>
+                x{instance.stacks}
+              </span>
+            )}
+            {instance.duration !== PERMANENT_DURATION && (
+              <span style={{
+                position: 'absolute',
+                top: '-4px',
+                right: '-4px',
+                fontSize: '9px',
+                fontWeight: 'bold',
+                color: 'white',
+                background: 'rgba(30, 64, 175, 0.9)',
+                borderRadius: '6px',
+                padding: '0 3px'
+              }}>
+                {instance.duration}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Escudo, armadura y reducción de daño de la fase actual del Eco
+const EcoDefenseIndicator: React.FC = () => {
+  const [, forceUpdate] = useState(0);
+
+  useEffect(() => {
+    const rerender = () => forceUpdate(n => n + 1);
+    const unsubscribeDefense = ecoDefenseSystem.subscribe(rerender);
+    const unsubscribePhase = ecoStateSystem.subscribe(rerender);
+    return () => {
+      unsubscribeDefense();
+      unsubscribePhase();
+    };
+  }, []);
+
+  const parts = [
+    ecoDefenseSystem.currentShield > 0 ? `🛡️ ${ecoDefenseSystem.currentShield}` : null,
+    ecoDefenseSystem.armor > 0 ? `🪨 ${ecoDefenseSystem.armor}` : null,
+    ecoDefenseSystem.damageReduction > 0 ? `⬇️ ${ecoDefenseSystem.damageReduction}%` : null,
+  ].filter(Boolean);
+
+  if (parts.length === 0) return null;
+
+  return (
+    <div
+      title={`Escudo ${ecoDefenseSystem.currentShield}/${ecoDefenseSystem.maxShield} · Armadura ${ecoDefenseSystem.armor} · Reducción ${ecoDefenseSystem.damageReduction}%`}
+      style={{
+        position: 'absolute',
+        bottom: '6px',
+        left: '6px',
+        fontSize: '11px',
+        fontWeight: 'bold',
+        color: 'white',
+        background: 'rgba(0, 0, 0, 0.7)',
+        border: '1px solid rgba(147, 197, 253, 0.6)',
+        borderRadius: '6px',
+        padding: '2px 6px',
+        zIndex: 2
+      }}
+    >
+      {parts.join(' · ')}
+    </div>
+  );
+};
+
+/**
+ * Intención del Eco: daño que anuncia para su próximo ataque (o ❓ si la oculta)
+ */
+const EcoIntentIndicator: React.FC = () => {
+  const [, forceUpdate] = useState(0);
+
+  useEffect(() => {
+    return ecoAI.subscribe(() => forceUpdate(n => n + 1));
+  }, []);
+
+  const intent = ecoAI.intent;
+  if (!intent) return null;
+
+  const parts = intent.shown
+    ? [
+        intent.shown.pv > 0 ? `🗡️ ${intent.shown.pv} PV` : null,
+        intent.shown.cor > 0 ? `🌀 ${intent.shown.cor} COR` : null,
+        intent.shown.node > 0 ? `⚙️ ${intent.shown.node} nodo` : null,
+      ].filter(Boolean)
+    : ['❓'];
+
+  return (
+    <div
+      title={intent.shown ? 'Próximo ataque del Eco' : 'El Eco oculta su intención'}
+      style={{
+        position: 'absolute',
+        bottom: '30px',
+        left: '6px',
+        fontSize: '11px',
+        fontWeight: 'bold',
+        color: 'white',
+        background: 'rgba(0, 0, 0, 0.7)',
+        border: '1px solid rgba(220, 38, 38, 0.7)',
+        borderRadius: '6px',
+        padding: '2px 6px',
+        zIndex: 2
+      }}
+    >
+      {parts.length > 0 ? parts.join(' · ') : '🗡️ 0'}
+    </div>
+  );
+};
+
 export const PlayerPortrait: React.FC<PortraitProps> = ({ 
   width = '180px', 
   height = '350px', 
@@ -66,19 +237,22 @@ export const PlayerPortrait: React.FC<PortraitProps> = ({
 
   if (portraitSrc) {
     return (
-      <img
-        src={portraitSrc}
-        alt="Player"
-        className={className}
-        style={{
-          width,
-          height,
-          objectFit: 'contain',
-          border: '2px solid rgba(217, 119, 6, 0.3)',
-          borderRadius: '8px',
-          ...style
-        }}
-      />
+      <div style={{ position: 'relative' }}>
+        <img
+          src={portraitSrc}
+          alt="Player"
+          className={className}
+          style={{
+            width,
+            height,
+            objectFit: 'contain',
+            border: '2px solid rgba(217, 119, 6, 0.3)',
+            borderRadius: '8px',
+            ...style
+          }}
+        />
+        <StatusBadges target="PLAYER" />
+      </div>
     );
   }
 
@@ -126,6 +300,7 @@ export const PlayerPortrait: React.FC<PortraitProps> = ({
       }}
       title={stateConfig.description} // Tooltip con descripción
     >
+      <StatusBadges target="PLAYER" />
       <div style={{ marginBottom: '8px' }}>{getHeroStateEmoji(currentState)}</div>
       <div style={{ 
         fontSize: '10px', 
@@ -230,7 +405,7 @@ export const EcoPortrait: React.FC<PortraitProps> = ({
 
   if (ecoSrc) {
     return (
-      <div ref={ecoRef}>
+      <div ref={ecoRef} style={{ position: 'relative' }}>
         <img
           src={ecoSrc}
           alt="Eco"
@@ -244,6 +419,9 @@ export const EcoPortrait: React.FC<PortraitProps> = ({
             ...style
           }}
         />
+        <StatusBadges target="ECO" />
+        <EcoDefenseIndicator />
+        <EcoIntentIndicator />
       </div>
     );
   }
@@ -291,6 +469,9 @@ export const EcoPortrait: React.FC<PortraitProps> = ({
       }}
       title={stateConfig?.description || 'Eco Status'} // Tooltip con descripción
     >
+      <StatusBadges target="ECO" />
+      <EcoDefenseIndicator />
+      <EcoIntentIndicator />
       <div style={{ marginBottom: '8px' }}>{getStateEmoji(currentState)}</div>
       <div style={{ 
         fontSize: '10px', 
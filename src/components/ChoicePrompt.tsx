@@ -0,0 +1,133 @@
+// src/components/ChoicePrompt.tsx
+
+import React, { useState, useEffect } from 'react';
+import { choiceSystem } from '../engine/ChoiceSystem';
+import type { ChoiceOption } from '../engine/ChoiceSystem';
+import { turnManager } from '../engine/TurnManager';
+import { replayPlayer } from '../engine/ReplayPlayer';
+import { colors, textStyles, createCompactStoneButtonStyle, handleStoneButtonHover } from '../utils/styles';
+import { useLayer, GameLayer } from '../engine/LayerManager';
+
+/**
+ * Ventana de elección de los efectos con objetivo CHOICE: cartas de la mano,
+ * un nodo o una opción. La resolución del efecto espera a que se confirme.
+ */
+export const ChoicePrompt: React.FC = () => {
+  const [prompt, setPrompt] = useState(choiceSystem.pendingPrompt);
+  const [selected, setSelected] = useState<string[]>([]);
+  const promptLayer = useLayer(GameLayer.NARRATIVE_MODAL);
+
+  useEffect(() => {
+    const unsubscribe = choiceSystem.subscribe(() => {
+      setPrompt(choiceSystem.pendingPrompt);
+      setSelected([]);
+    });
+    return unsubscribe;
+  }, []);
+
+  // En las repeticiones las respuestas vienen de la grabación; las opciones de eventos las muestra el evento
+  if (!prompt || replayPlayer.isActive || prompt.eventId) {
+    return null;
+  }
+
+  const toggle = (optionId: string) => {
+    if (selected.includes(optionId)) {
+      setSelected(selected.filter(id => id !== optionId));
+    } else if (prompt.count === 1) {
+      setSelected([optionId]);
+    } else if (selected.length < prompt.count) {
+      setSelected([...selected, optionId]);
+    }
+  };
+
+  const accent = prompt.harmful ? colors.warning : colors.gold;
+
+  const renderOption = (option: ChoiceOption) => {
+    const isSelected = selected.includes(option.id);
+    return (
+      <button
+        key={option.id}
+        onClick={() => toggle(option.id)}
+        title={option.description}
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: '6px',
+          padding: option.card ? '6px' : '10px 14px',
+          minWidth: option.card ? undefined : '140px',
+          background: isSelected ? 'rgba(182, 149, 82, 0.18)' : colors.background,
+          border: `2px solid ${isSelected ? accent : colors.stone.border}`,
+          borderRadius: '8px',
+          color: colors.muted,
+          cursor: 'pointer',
+          transition: 'all 0.2s ease'
+        }}
+      >
+        {option.card && (
+          <img
+            src={`/images/decks/default/${option.card.imageFile}`}
+            alt={option.label}
+            style={{ width: '72px', borderRadius: '4px', display: 'block' }}
+          />
+        )}
+        <span style={{ ...textStyles.label, fontSize: '12px', color: isSelected ? accent : colors.muted }}>
+          {prompt.ordered && isSelected ? `${selected.indexOf(option.id) + 1}. ` : ''}{option.label}
+        </span>
+        {option.description && !option.card && (
+          <span style={{ ...textStyles.bodySmall, fontSize: '11px', color: colors.mutedAlpha }}>
+            {option.description}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: 'rgba(0, 0, 0, 0.55)',
+      zIndex: promptLayer.zIndex
+    }}>
+      <div style={{
+        maxWidth: '720px',
+        padding: '20px 24px',
+        background: 'rgba(15, 23, 42, 0.95)',
+        border: `1px solid ${accent}`,
+        borderRadius: '12px',
+        boxShadow: '0 10px 30px rgba(0,0,0,0.7)',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '14px'
+      }}>
+        <span style={{ ...textStyles.smallTitle, color: accent }}>
+          {prompt.title}
+        </span>
+        {prompt.description && (
+          <span style={{ ...textStyles.bodySmall, color: colors.muted }}>
+            {prompt.description}
+          </span>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '10px' }}>
+          {prompt.options.map(renderOption)}
+        </div>
+
+        <button
+          style={createCompactStoneButtonStyle()}
+          disabled={selected.length !== prompt.count}
+          onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+          onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+          onClick={() => turnManager.answerChoice(selected)}
+        >
+          Confirmar ({selected.length}/{prompt.count})
+        </button>
+      </div>
+    </div>
+  );
+};
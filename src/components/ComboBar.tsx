@@ -0,0 +1,79 @@
+// src/components/ComboBar.tsx
+
+import React, { useState, useEffect } from 'react';
+import { gameStateManager } from '../engine/GameStateManager';
+import { turnManager } from '../engine/TurnManager';
+import { legalActionSystem } from '../engine/LegalActionSystem';
+import { replayPlayer } from '../engine/ReplayPlayer';
+import { colors, textStyles, createCompactStoneButtonStyle, handleStoneButtonHover } from '../utils/styles';
+import { useLayer, GameLayer } from '../engine/LayerManager';
+
+/**
+ * Barra de combinaciones: muestra las cartas marcadas desde el menú de la carta,
+ * la combinación que forman y su coste, y permite jugarlas juntas.
+ */
+export const ComboBar: React.FC = () => {
+  const [, setTick] = useState(0);
+  const barLayer = useLayer(GameLayer.INTERACTIVE_UI);
+
+  useEffect(() => {
+    const unsubscribe = gameStateManager.subscribe(() => setTick(tick => tick + 1));
+    return unsubscribe;
+  }, []);
+
+  // Las cartas que ya no están en la mano (jugadas, descartadas) dejan de contar
+  const handIds = gameStateManager.hand.map(card => card.id);
+  const selected = gameStateManager.selectedCards.filter(card => handIds.includes(card.id));
+
+  if (selected.length === 0 || replayPlayer.isActive) {
+    return null;
+  }
+
+  const combo = legalActionSystem.getComboRule(selected);
+  const check = legalActionSystem.checkCombo(selected);
+  const buttonStyle = createCompactStoneButtonStyle({ padding: '6px 12px', fontSize: '11px' });
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '150px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '10px',
+      padding: '8px 14px',
+      background: 'rgba(15, 23, 42, 0.9)',
+      border: `1px solid ${combo ? colors.gold : colors.stone.border}`,
+      borderRadius: '10px',
+      boxShadow: '0 10px 20px rgba(0,0,0,0.6)',
+      zIndex: barLayer.zIndex
+    }}>
+      <span style={{ ...textStyles.label, color: colors.gold, fontSize: '11px' }}>
+        {combo ? `${combo.name} · ${legalActionSystem.describeCost(combo.cost)}` : 'Sin combinación'}
+      </span>
+      <span style={{ ...textStyles.bodySmall, color: colors.muted, fontSize: '11px' }}>
+        {selected.map(card => `${card.rank}${card.suit.charAt(0)}`).join(' · ')}
+      </span>
+
+      <button
+        style={buttonStyle}
+        disabled={!check.allowed}
+        title={check.reason}
+        onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+        onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+        onClick={() => turnManager.playCombo(selected)}
+      >
+        Jugar combo
+      </button>
+      <button
+        style={buttonStyle}
+        onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+        onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+        onClick={() => gameStateManager.clearSelectedCards()}
+      >
+        Limpiar
+      </button>
+    </div>
+  );
+};
@@ -18,6 +18,8 @@ import {
 import { gameStateManager, GamePhase } from '../engine/GameStateManager';
 import { ecoAI } from '../engine/EcoAI';
 import { nodeSystem } from '../engine/NodeSystem';
+import { statusEffectSystem } from '../engine/StatusEffectSystem';
+import { eventScheduler } from '../engine/EventScheduler';
 import { textStyles, colors } from '../utils/styles';
 
 export const EnhancedHUD: React.FC = () => {
@@ -28,7 +30,7 @@ export const EnhancedHUD: React.FC = () => {
   // Animate health/sanity bars when values change
   useEffect(() => {
     if (pvBarRef.current) {
-      const percentage = (gameStateManager.pv / 20) * 100;
+      const percentage = (gameStateManager.pv / gameStateManager.maxPV) * 100;
       gsap.to(pvBarRef.current, {
         width: `${percentage}%`,
         duration: 0.8,
@@ -39,7 +41,7 @@ export const EnhancedHUD: React.FC = () => {
 
   useEffect(() => {
     if (corBarRef.current) {
-      const percentage = (gameStateManager.sanity / 20) * 100;
+      const percentage = (gameStateManager.sanity / gameStateManager.maxSanity) * 100;
       gsap.to(corBarRef.current, {
         width: `${percentage}%`,
         duration: 0.8,
@@ -84,9 +86,9 @@ export const EnhancedHUD: React.FC = () => {
     switch (phase) {
       case 'vigilante':
         return { icon: FaEye, color: 'text-blue-400', name: 'VIGILANTE' };
-      case 'predador':
+      case 'predator':
         return { icon: FaSkull, color: 'text-orange-400', name: 'PREDADOR' };
-      case 'devastador':
+      case 'devastator':
         return { icon: FaFire, color: 'text-red-400', name: 'DEVASTADOR' };
       default:
         return { icon: FaEye, color: 'text-blue-400', name: 'VIGILANTE' };
@@ -95,6 +97,21 @@ export const EnhancedHUD: React.FC = () => {
 
   const ecoPhase = getEcoPhaseInfo(ecoAI.currentPhase);
 
+  // Presión de eventos del próximo turno: periodo de gracia o eventos esperados
+  const getEventPressureInfo = () => {
+    const pressure = eventScheduler.getPressure(gameStateManager.turn + 1);
+    if (pressure.inGrace) {
+      return { text: `Eventos desde el turno ${pressure.graceTurns + 1}`, color: '#86efac' };
+    }
+    const range = pressure.minEvents === pressure.maxEvents
+      ? `${pressure.minEvents}`
+      : `${pressure.minEvents}-${pressure.maxEvents}`;
+    const color = pressure.rate >= 2 ? '#fca5a5' : pressure.rate >= 1 ? '#fcd34d' : '#fef3c7';
+    return { text: `Eventos: ${range} por turno`, color };
+  };
+
+  const eventPressure = getEventPressureInfo();
+
   return (
     <div className="enhanced-hud w-full h-full flex items-center justify-between px-6 relative">
       
@@ -114,13 +131,13 @@ export const EnhancedHUD: React.FC = () => {
           <div className="stat-info">
             <div style={{ ...textStyles.label, fontSize: '10px', color: colors.mutedAlpha }}>Vida</div>
             <div style={{ ...textStyles.body, fontSize: '18px', fontWeight: 'bold', color: '#fca5a5' }}>
-              {gameStateManager.pv}/20
+              {gameStateManager.pv}/{gameStateManager.maxPV}
             </div>
             <div className="stat-bar w-16 h-1.5 bg-black/60 rounded-full overflow-hidden">
               <div 
                 ref={pvBarRef}
                 className="h-full bg-gradient-to-r from-red-600 to-red-400 rounded-full transition-all duration-800"
-                style={{ width: `${(gameStateManager.pv / 20) * 100}%` }}
+                style={{ width: `${(gameStateManager.pv / gameStateManager.maxPV) * 100}%` }}
               />
             </div>
           </div>
@@ -139,13 +156,13 @@ export const EnhancedHUD: React.FC = () => {
           <div className="stat-info">
             <div style={{ ...textStyles.label, fontSize: '10px', color: colors.mutedAlpha }}>Cordura</div>
             <div style={{ ...textStyles.body, fontSize: '18px', fontWeight: 'bold', color: '#c4b5fd' }}>
-              {gameStateManager.sanity}/20
+              {gameStateManager.sanity}/{gameStateManager.maxSanity}
             </div>
             <div className="stat-bar w-16 h-1.5 bg-black/60 rounded-full overflow-hidden">
               <div 
                 ref={corBarRef}
                 className="h-full bg-gradient-to-r from-purple-600 to-purple-400 rounded-full transition-all duration-800"
-                style={{ width: `${(gameStateManager.sanity / 20) * 100}%` }}
+                style={{ width: `${(gameStateManager.sanity / gameStateManager.maxSanity) * 100}%` }}
               />
             </div>
           </div>
@@ -184,6 +201,12 @@ export const EnhancedHUD: React.FC = () => {
           <div style={{ ...textStyles.smallTitle, fontSize: '18px', color: '#fef3c7' }}>
             {GamePhase[gameStateManager.phase].replace('_', ' ')}
           </div>
+          <div
+            style={{ ...textStyles.label, fontSize: '10px', color: eventPressure.color }}
+            title="Frecuencia de eventos según la fase del Eco y el capítulo"
+          >
+            {eventPressure.text}
+          </div>
         </div>
       </motion.div>
 
@@ -273,7 +296,7 @@ export const EnhancedHUD: React.FC = () => {
       </div>
 
       {/* Exposed Eco indicator */}
-      {gameStateManager.isEcoExposed && (
+      {statusEffectSystem.hasStatus('ECO', 'EXPOSED') && (
         <motion.div
           initial={{ scale: 0, opacity: 0 }}
           animate={{ scale: 1, opacity: 1 }}
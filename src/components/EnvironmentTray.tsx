@@ -0,0 +1,105 @@
+// src/components/EnvironmentTray.tsx
+
+import React, { useState, useEffect } from 'react';
+import { gameStateManager } from '../engine/GameStateManager';
+import { environmentSystem } from '../engine/EnvironmentSystem';
+import type { EnvironmentEvent } from '../engine/EnvironmentSystem';
+import { turnManager } from '../engine/TurnManager';
+import { legalActionSystem } from '../engine/LegalActionSystem';
+import { replayPlayer } from '../engine/ReplayPlayer';
+import { colors, textStyles, createCompactStoneButtonStyle, handleStoneButtonHover } from '../utils/styles';
+import { useLayer, GameLayer } from '../engine/LayerManager';
+
+/**
+ * Bandeja de eventos ambientales en juego: turnos que les quedan, sus efectos
+ * mientras duran y el botón para despejarlos cuando tienen acción de despeje.
+ */
+export const EnvironmentTray: React.FC = () => {
+  const [, setTick] = useState(0);
+  const trayLayer = useLayer(GameLayer.UI_STATS);
+
+  useEffect(() => {
+    const unsubscribeEnvironment = environmentSystem.subscribe(() => setTick(tick => tick + 1));
+    const unsubscribeState = gameStateManager.subscribe(() => setTick(tick => tick + 1));
+    return () => {
+      unsubscribeEnvironment();
+      unsubscribeState();
+    };
+  }, []);
+
+  const activeEvents = environmentSystem.activeEvents;
+  if (activeEvents.length === 0) {
+    return null;
+  }
+
+  const describeEffects = ({ config }: EnvironmentEvent): string => {
+    const parts = [
+      config.modifiers?.handSize ? `Mano ${config.modifiers.handSize > 0 ? '+' : ''}${config.modifiers.handSize}` : '',
+      config.modifiers?.nodeDamagePercent ? `Daño a nodos ${config.modifiers.nodeDamagePercent > 0 ? '+' : ''}${config.modifiers.nodeDamagePercent}%` : '',
+      config.perTurn && config.perTurn.length > 0 ? 'Efectos cada turno' : '',
+      config.endCondition ? 'Termina si cambia la situación' : '',
+    ].filter(part => part !== '');
+    return parts.join(' · ');
+  };
+
+  const buttonStyle = createCompactStoneButtonStyle({ padding: '3px 8px', fontSize: '10px' });
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '66px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      display: 'flex',
+      gap: '8px',
+      zIndex: trayLayer.zIndex
+    }}>
+      {activeEvents.map(active => {
+        const clear = active.config.clear;
+        const check = legalActionSystem.checkClearEvent(active.event.id);
+        const effects = describeEffects(active);
+
+        return (
+          <div
+            key={active.event.id}
+            title={active.event.flavor}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '4px 10px',
+              background: 'rgba(15, 23, 42, 0.9)',
+              border: `1px solid ${colors.stone.border}`,
+              borderRadius: '8px',
+              boxShadow: '0 6px 12px rgba(0,0,0,0.5)'
+            }}
+          >
+            <div style={{ display: 'flex', flexDirection: 'column' }}>
+              <span style={{ ...textStyles.label, color: colors.gold, fontSize: '11px' }}>
+                🌫️ {active.event.event}
+                {active.remaining !== null ? ` · ${active.remaining} turno${active.remaining === 1 ? '' : 's'}` : ''}
+              </span>
+              {effects && (
+                <span style={{ ...textStyles.bodySmall, color: colors.mutedAlpha, fontSize: '10px' }}>
+                  {effects}
+                </span>
+              )}
+            </div>
+            {clear && !replayPlayer.isActive && (
+              <button
+                style={buttonStyle}
+                disabled={!check.allowed}
+                title={check.reason ?? `Coste: ${legalActionSystem.describeCost(clear.cost)}`}
+                onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+                onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+                onClick={() => turnManager.clearEvent(active.event.id)}
+              >
+                {clear.label}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
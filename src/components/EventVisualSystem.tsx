@@ -8,6 +8,10 @@ import type { ScreenEffectType } from '../engine/PixiScreenEffects';
 import { colors, textStyles, panelStyles, createStoneButtonStyle, handleStoneButtonHover } from '../utils/styles';
 import { assetManager } from '../engine/AssetManager';
 import { GameLayer, useLayer } from '../engine/LayerManager';
+import { choiceSystem } from '../engine/ChoiceSystem';
+import type { ChoiceOption } from '../engine/ChoiceSystem';
+import { gameStateManager, GamePhase } from '../engine/GameStateManager';
+import { turnManager } from '../engine/TurnManager';
 // import { Z_INDEX } from '../constants/zIndex'; // Reemplazado por LayerManager
 
 interface EventVisualSystemProps {
@@ -402,7 +406,7 @@ const CardPresentation: React.FC<{
     {/* Contenido del evento */}
     <div style={{ flex: 1 }}>
       <EventDetails event={event} />
-      <OKButton onClose={onClose} />
+      <EventActions event={event} onClose={onClose} />
     </div>
   </div>
   );
@@ -472,7 +476,7 @@ const ImagePresentation: React.FC<{
     {/* Contenido del evento - lado derecho */}
     <div style={{ flex: 1, padding: '0 24px' }}>
       <EventDetails event={event} />
-      <OKButton onClose={onClose} />
+      <EventActions event={event} onClose={onClose} />
     </div>
   </div>
 );
@@ -562,7 +566,7 @@ const GifPresentation: React.FC<{
       {/* Contenido del evento - lado derecho */}
       <div style={{ flex: 1, padding: '0 24px' }}>
         <EventDetails event={event} />
-        <OKButton onClose={onClose} />
+        <EventActions event={event} onClose={onClose} />
       </div>
     </div>
   );
@@ -672,7 +676,7 @@ const VideoPresentation: React.FC<{
       {/* Contenido del evento - lado derecho */}
       <div style={{ flex: 1, padding: '0 24px' }}>
         <EventDetails event={event} />
-        <OKButton onClose={onClose} />
+        <EventActions event={event} onClose={onClose} />
       </div>
     </div>
   );
@@ -803,6 +807,71 @@ const OKButton: React.FC<{ onClose: () => void }> = ({ onClose }) => (
   </div>
 );
 
+/**
+ * Pie del evento: los eventos con opciones se cierran eligiendo una de ellas
+ */
+const EventActions: React.FC<{ event: DynamicEvent; onClose: () => void }> = ({ event, onClose }) => {
+  const [prompt, setPrompt] = useState(choiceSystem.pendingPrompt);
+
+  useEffect(() => {
+    const unsubscribeChoice = choiceSystem.subscribe(() => setPrompt(choiceSystem.pendingPrompt));
+    const unsubscribeState = gameStateManager.subscribe(() => setPrompt(choiceSystem.pendingPrompt));
+    return () => {
+      unsubscribeChoice();
+      unsubscribeState();
+    };
+  }, []);
+
+  if (!event.options || event.options.length === 0) {
+    return <OKButton onClose={onClose} />;
+  }
+
+  // Las opciones se ofrecen al comenzar la fase de acción; si ya pasó sin elección pendiente, no había ninguna posible
+  const isOffered = prompt?.eventId === event.id;
+  if (!isOffered && gameStateManager.phase !== GamePhase.EVENT) {
+    return <OKButton onClose={onClose} />;
+  }
+
+  const options: ChoiceOption[] = isOffered && prompt
+    ? prompt.options
+    : event.options.map((option, index) => ({ id: String(index), label: option.label, description: option.description }));
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      gap: '12px',
+      marginTop: '24px'
+    }}>
+      {options.map(option => {
+        const disabled = !isOffered || !!option.disabledReason;
+        return (
+          <button
+            key={option.id}
+            style={{ ...createStoneButtonStyle({ width: '220px' }), opacity: disabled ? 0.5 : 1 }}
+            disabled={disabled}
+            title={option.disabledReason ?? option.description}
+            onMouseEnter={(e) => !disabled && handleStoneButtonHover(e, true)}
+            onMouseLeave={(e) => !disabled && handleStoneButtonHover(e, false)}
+            onClick={() => {
+              turnManager.answerChoice([option.id]);
+              onClose();
+            }}
+          >
+            {option.label}
+            {option.description && (
+              <div style={{ ...textStyles.bodySmall, fontSize: '11px', marginTop: '4px' }}>
+                {option.disabledReason ?? option.description}
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
 // Efectos de pantalla ahora manejados por PixiScreenEffects
 
 // Helper para describir efectos
@@ -16,6 +16,10 @@ import { scoreSystem } from '../engine/ScoreSystem';
 import { ecoStateSystem } from '../engine/EcoStateSystem';
 import { heroStateSystem } from '../engine/HeroStateSystem';
 import { audioManager } from '../engine/AudioManager';
+import { randomSystem } from '../engine/RandomSystem';
+import { actionRecorder } from '../engine/ActionRecorder';
+import type { ReplayRecording } from '../engine/ActionRecorder';
+import { replayPlayer } from '../engine/ReplayPlayer';
 import { colors, textStyles, panelStyles, createStoneButtonStyle, handleStoneButtonHover } from '../utils/styles';
 import { useLayer, GameLayer } from '../engine/LayerManager';
 
@@ -25,6 +29,7 @@ interface GameEndSystemProps {
   onPlayAgain: () => void;
   onContinueToNext?: () => void;
   onTriggerEndNarrative?: () => void; // Nueva prop para disparar narrativa de final
+  onWatchReplay?: (recording: ReplayRecording) => void;
 }
 
 interface GameResult {
@@ -32,6 +37,7 @@ interface GameResult {
   finalScore: number;
   survivalTime: number;
   chapter: string;
+  seed: number;
   cause: 'eco_defeated' | 'player_died' | 'sanity_lost' | 'deck_empty';
   finalStats: {
     pv: number;
@@ -46,7 +52,8 @@ export const GameEndSystem: React.FC<GameEndSystemProps> = ({
   onReturnToMenu,
   onPlayAgain,
   onContinueToNext,
-  onTriggerEndNarrative
+  onTriggerEndNarrative,
+  onWatchReplay
 }) => {
   const [gameResult, setGameResult] = useState<GameResult | null>(null);
   const [showDetails, setShowDetails] = useState(false);
@@ -108,6 +115,7 @@ export const GameEndSystem: React.FC<GameEndSystemProps> = ({
         finalScore,
         survivalTime: gameStateManager.turn,
         chapter: chapterManager.currentChapterConfig?.name || 'Unknown',
+        seed: randomSystem.seed,
         cause,
         finalStats: {
           pv: gameStateManager.pv,
@@ -226,6 +234,19 @@ export const GameEndSystem: React.FC<GameEndSystemProps> = ({
     return { width: totalWidth, height: totalHeight };
   };
 
+  /**
+   * Descarga la grabación de la partida como JSON para adjuntarla a un reporte
+   */
+  const downloadReplay = (recording: ReplayRecording) => {
+    const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `eco-replay-${recording.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   if (!isVisible || !gameResult) {
     return null;
   }
@@ -233,6 +254,8 @@ export const GameEndSystem: React.FC<GameEndSystemProps> = ({
   const scoreRank = getScoreRank(gameResult.finalScore);
   const hasNextChapter = chapterManager.hasNextChapter();
   const modalDimensions = calculateModalDimensions();
+  // Durante una repetición se ofrece la grabación que se está viendo, no la última jugada
+  const replayRecording = replayPlayer.isActive ? replayPlayer.currentRecording : actionRecorder.getRecording();
 
   return (
     <div style={{
@@ -305,6 +328,14 @@ export const GameEndSystem: React.FC<GameEndSystemProps> = ({
           }}>
             Capítulo: {gameResult.chapter}
           </p>
+          <p style={{
+            ...textStyles.bodySmall,
+            color: colors.muted,
+            fontSize: '12px',
+            marginTop: '4px'
+          }}>
+            Semilla: {gameResult.seed}
+          </p>
         </div>
 
         {/* Estadísticas principales */}
@@ -467,6 +498,37 @@ export const GameEndSystem: React.FC<GameEndSystemProps> = ({
             Jugar de Nuevo
           </button>
 
+          {/* Repetición de la partida */}
+          {replayRecording && onWatchReplay && (
+            <button
+              style={{
+                ...createStoneButtonStyle(),
+                width: '150px',
+                fontSize: '16px'
+              }}
+              onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+              onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+              onClick={() => onWatchReplay(replayRecording)}
+            >
+              Ver Repetición
+            </button>
+          )}
+
+          {replayRecording && (
+            <button
+              style={{
+                ...createStoneButtonStyle(),
+                width: '150px',
+                fontSize: '16px'
+              }}
+              onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+              onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+              onClick={() => downloadReplay(replayRecording)}
+            >
+              Descargar Repetición
+            </button>
+          )}
+
           {/* Volver al menú */}
           <button
             style={{
@@ -3,6 +3,7 @@
 import React from 'react';
 import { gameStateManager } from '../engine/GameStateManager';
 import { ecoAI } from '../engine/EcoAI';
+import { statusEffectSystem } from '../engine/StatusEffectSystem';
 
 export const HUD: React.FC = () => {
     return (
@@ -19,7 +20,7 @@ export const HUD: React.FC = () => {
             <div>
                 <div>Eco HP: {gameStateManager.ecoHp}</div>
                 <div>Eco Phase: {ecoAI.currentPhase}</div>
-                {gameStateManager.isEcoExposed && <div className="text-red-500">Eco Exposed!</div>}
+                {statusEffectSystem.hasStatus('ECO', 'EXPOSED') && <div className="text-red-500">Eco Exposed!</div>}
             </div>
         </div>
     );
@@ -158,6 +158,15 @@ export const Hand: React.FC<HandProps> = () => {
                 turnManager.performFocus(enlargedCard); // Focus = discard + draw
                 break;
                 
+            case 'combo':
+                if (gameStateManager.selectedCards.some(card => card.id === enlargedCard.id)) {
+                    gameStateManager.deselectCard(enlargedCard);
+                } else {
+                    gameStateManager.selectCard(enlargedCard);
+                }
+                console.log(`[${timestamp}] ➕ Hand: Combo selection: ${gameStateManager.selectedCards.map(card => card.id).join(',')}`);
+                break;
+                
             case 'cancel':
                 console.log(`[${timestamp}] ✖ Hand: Action cancelled by user`);
                 // Just close the menu - no game action
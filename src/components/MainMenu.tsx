@@ -1,8 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { turnManager } from '../engine/TurnManager';
 import { chapterManager } from '../engine/ChapterManager';
 import type { ChapterConfig, ScenarioConfig } from '../engine/ChapterManager';
 import { assetManager } from '../engine/AssetManager';
+import { saveGameManager } from '../engine/SaveGameManager';
+import { actionRecorder } from '../engine/ActionRecorder';
+import type { ReplayRecording } from '../engine/ActionRecorder';
 import { 
     colors, 
     textStyles, 
@@ -19,12 +22,15 @@ import AudioControls from './AudioControls';
 
 interface MainMenuProps {
     onStartGame: () => void;
+    onResumeGame?: () => void;
+    onWatchReplay?: (recording: ReplayRecording) => void;
 }
 
 type MenuView = 'main' | 'chapters' | 'scenarios' | 'settings' | 'profile' | 'config';
 
-export const MainMenu: React.FC<MainMenuProps> = ({ onStartGame }) => {
+export const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onResumeGame, onWatchReplay }) => {
     const [hasSave, setHasSave] = useState(false);
+    const replayInputRef = useRef<HTMLInputElement>(null);
     const [currentView, setCurrentView] = useState<MenuView>('main');
     const [, setSelectedChapter] = useState<ChapterConfig | null>(null);
     const [availableChapters, setAvailableChapters] = useState<ChapterConfig[]>([]);
@@ -48,8 +54,7 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStartGame }) => {
     const { showMessage, showConfirm } = useGameModalContext();
 
     useEffect(() => {
-        const savedGame = localStorage.getItem('ecoGameState');
-        setHasSave(!!savedGame);
+        setHasSave(saveGameManager.hasSave());
         
         // Initialize AssetManager with default scenario
         assetManager.setScenario('default');
@@ -154,12 +159,36 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStartGame }) => {
         setCurrentView('chapters');
     };
     
-    const handleContinueGame = () => {
+    const handleContinueGame = async () => {
         console.log('🎮 MainMenu: Continuando juego guardado');
         
         // Parar efectos de menú en loop
         audioManager.stopEffect('event-strange');
         
+        // Reanudar la partida guardada en el turno y fase exactos
+        if (saveGameManager.hasSave()) {
+            setLoading(true);
+            try {
+                const resumed = await turnManager.resumeGame();
+                if (resumed) {
+                    (onResumeGame ?? onStartGame)();
+                    return;
+                }
+                setHasSave(false);
+                showMessage(
+                    'No se pudo cargar la partida guardada.',
+                    { 
+                        title: 'Error de Carga', 
+                        type: 'error',
+                        buttonText: 'Entendido'
+                    }
+                );
+                return;
+            } finally {
+                setLoading(false);
+            }
+        }
+        
         // Load the last played chapter if available
         if (playerProfile.currentChapter) {
             const chapter = chapterManager.availableChapters.find(c => c.id === playerProfile.currentChapter);
@@ -171,6 +200,29 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStartGame }) => {
         onStartGame();
     };
     
+    const handleLoadReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file || !onWatchReplay) return;
+        
+        const recording = actionRecorder.parseRecording(await file.text());
+        if (!recording) {
+            showMessage(
+                'El archivo no es una repetición válida.',
+                { 
+                    title: 'Error de Carga', 
+                    type: 'error',
+                    buttonText: 'Entendido'
+                }
+            );
+            return;
+        }
+        
+        console.log('🎥 MainMenu: Cargando repetición', { seed: recording.seed, actions: recording.actions.length });
+        audioManager.stopEffect('event-strange');
+        onWatchReplay(recording);
+    };
+    
     const handleStartChapter = async (chapter: ChapterConfig) => {
         setLoading(true);
         try {
@@ -437,6 +489,26 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStartGame }) => {
                     >
                         Configuración
                     </button>
+                    
+                    {onWatchReplay && (
+                        <>
+                            <button 
+                                style={createStoneButtonStyle()}
+                                onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+                                onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+                                onClick={() => replayInputRef.current?.click()}
+                            >
+                                Cargar Repetición
+                            </button>
+                            <input
+                                ref={replayInputRef}
+                                type="file"
+                                accept="application/json,.json"
+                                style={{ display: 'none' }}
+                                onChange={handleLoadReplay}
+                            />
+                        </>
+                    )}
                 </div>
         </div>
     );
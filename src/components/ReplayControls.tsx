@@ -0,0 +1,119 @@
+// src/components/ReplayControls.tsx
+
+import React, { useState, useEffect } from 'react';
+import { replayPlayer } from '../engine/ReplayPlayer';
+import { gameStateManager } from '../engine/GameStateManager';
+import { colors, textStyles, createCompactStoneButtonStyle, handleStoneButtonHover } from '../utils/styles';
+import { useLayer, GameLayer } from '../engine/LayerManager';
+
+interface ReplayControlsProps {
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+/**
+ * Barra de control del visor de repeticiones: reproducir, pausar,
+ * avanzar un turno y cambiar la velocidad.
+ */
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ onExit }) => {
+  const [, setTick] = useState(0);
+  const controlsLayer = useLayer(GameLayer.INTERACTIVE_UI);
+
+  useEffect(() => {
+    const unsubscribe = replayPlayer.subscribe(() => setTick(tick => tick + 1));
+    return unsubscribe;
+  }, []);
+
+  if (!replayPlayer.isActive) {
+    return null;
+  }
+
+  const { current, total } = replayPlayer.progress;
+  const status = replayPlayer.status;
+  const buttonStyle = createCompactStoneButtonStyle({ minWidth: '70px', padding: '6px 10px', fontSize: '11px' });
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '12px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '8px 12px',
+      background: 'rgba(15, 23, 42, 0.9)',
+      border: `1px solid ${colors.stone.border}`,
+      borderRadius: '10px',
+      boxShadow: '0 10px 20px rgba(0,0,0,0.6)',
+      zIndex: controlsLayer.zIndex
+    }}>
+      <span style={{ ...textStyles.label, color: colors.gold, fontSize: '11px' }}>
+        🎥 REPETICIÓN
+      </span>
+      <span style={{ ...textStyles.bodySmall, color: colors.muted, fontSize: '11px', minWidth: '120px' }}>
+        Turno {gameStateManager.turn} · {current}/{total}
+      </span>
+
+      {status === 'playing' ? (
+        <button
+          style={buttonStyle}
+          onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+          onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+          onClick={() => replayPlayer.pause()}
+        >
+          Pausa
+        </button>
+      ) : (
+        <button
+          style={buttonStyle}
+          disabled={status !== 'paused'}
+          onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+          onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+          onClick={() => replayPlayer.play()}
+        >
+          Reproducir
+        </button>
+      )}
+
+      <button
+        style={buttonStyle}
+        disabled={status !== 'paused'}
+        onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+        onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+        onClick={() => replayPlayer.stepTurn()}
+      >
+        +1 Turno
+      </button>
+
+      {SPEEDS.map(speed => (
+        <button
+          key={speed}
+          style={{
+            ...buttonStyle,
+            minWidth: '44px',
+            color: replayPlayer.speed === speed ? colors.gold : colors.muted
+          }}
+          onClick={() => replayPlayer.setSpeed(speed)}
+        >
+          {speed}x
+        </button>
+      ))}
+
+      <button
+        style={buttonStyle}
+        onMouseEnter={(e) => handleStoneButtonHover(e, true)}
+        onMouseLeave={(e) => handleStoneButtonHover(e, false)}
+        onClick={() => {
+          replayPlayer.stop();
+          onExit();
+        }}
+      >
+        Salir
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
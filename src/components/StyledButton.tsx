@@ -12,6 +12,7 @@ interface StyledButtonProps {
   icon?: React.ReactNode;
   className?: string;
   style?: React.CSSProperties;
+  title?: string;
 }
 
 export const StyledButton: React.FC<StyledButtonProps> = ({
@@ -22,7 +23,8 @@ export const StyledButton: React.FC<StyledButtonProps> = ({
   size = 'md',
   icon,
   className = '',
-  style = {}
+  style = {},
+  title
 }) => {
   // Get variant color
   const getVariantColor = () => {
@@ -78,6 +80,7 @@ export const StyledButton: React.FC<StyledButtonProps> = ({
       disabled={disabled}
       style={getButtonStyle()}
       className={className}
+      title={title}
     >
       {icon && <span style={{ marginRight: '8px', display: 'inline-flex', alignItems: 'center' }}>{icon}</span>}
       <span>{children}</span>
@@ -14,12 +14,12 @@ export const TempStats: React.FC = () => {
         {/* Player Stats */}
         <div className="flex items-center space-x-3">
           <FaHeart className="text-red-400" />
-          <span className="text-red-300 font-bold">{gameStateManager.pv}/20</span>
+          <span className="text-red-300 font-bold">{gameStateManager.pv}/{gameStateManager.maxPV}</span>
         </div>
         
         <div className="flex items-center space-x-3">
           <FaBrain className="text-purple-400" />
-          <span className="text-purple-300 font-bold">{gameStateManager.sanity}/20</span>
+          <span className="text-purple-300 font-bold">{gameStateManager.sanity}/{gameStateManager.maxSanity}</span>
         </div>
         
         <div className="flex items-center space-x-3">
@@ -0,0 +1,94 @@
+// src/engine/ActionRecorder.ts
+
+/**
+ * Grabación de las acciones del jugador para repeticiones.
+ * Junto con la semilla del RNG y el escenario/capítulo, la lista de comandos
+ * basta para reproducir una partida completa con ReplayPlayer.
+ */
+
+import { gameStateManager } from './GameStateManager';
+
+export const REPLAY_VERSION = 1;
+
+export type ReplayAction =
+    | { type: 'playCard'; cardId: string }
+    | { type: 'playCombo'; cardIds: string[] }
+    | { type: 'performFocus'; cardId: string }
+    | { type: 'drawCard' }
+    | { type: 'endPlayerTurn' }
+    | { type: 'repairNode'; nodeId: string; cardIds: string[] }
+    | { type: 'focusAction'; cardIds: string[] }
+    | { type: 'searchAction'; cardIds: string[]; searchType: 'specific' | 'any' }
+    | { type: 'dismissEvent' }
+    | { type: 'clearEvent'; eventId: string }
+    | { type: 'choose'; optionIds: string[] }
+    | { type: 'undo' };
+
+export type RecordedAction = ReplayAction & { turn: number };
+
+export interface ReplayRecording {
+    version: number;
+    recordedAt: string;
+    seed: number;
+    scenarioId: string;
+    chapterId: string | null;
+    actions: RecordedAction[];
+}
+
+class ActionRecorder {
+    private current: ReplayRecording | null = null;
+    private recording = false;
+
+    get isRecording() { return this.recording; }
+
+    /**
+     * Comienza una grabación nueva para la partida que se está iniciando
+     */
+    start(seed: number, scenarioId: string, chapterId: string | null) {
+        this.current = {
+            version: REPLAY_VERSION,
+            recordedAt: new Date().toISOString(),
+            seed,
+            scenarioId,
+            chapterId,
+            actions: [],
+        };
+        this.recording = true;
+        console.log(`🎥 ActionRecorder: Grabando partida (semilla ${seed}, escenario ${scenarioId})`);
+    }
+
+    /**
+     * Detiene la grabación; la última grabación sigue disponible para exportar
+     */
+    stop() {
+        this.recording = false;
+    }
+
+    record(action: ReplayAction) {
+        if (!this.recording || !this.current) return;
+        this.current.actions.push({ ...action, turn: gameStateManager.turn });
+    }
+
+    getRecording(): ReplayRecording | null {
+        return this.current ? { ...this.current, actions: [...this.current.actions] } : null;
+    }
+
+    /**
+     * Lee una grabación exportada; devuelve null si el formato no es válido
+     */
+    parseRecording(json: string): ReplayRecording | null {
+        try {
+            const data = JSON.parse(json) as ReplayRecording;
+            if (data.version !== REPLAY_VERSION || typeof data.seed !== 'number' || !Array.isArray(data.actions)) {
+                console.warn('⚠️ ActionRecorder: Formato de repetición no válido');
+                return null;
+            }
+            return data;
+        } catch (error) {
+            console.error('❌ ActionRecorder: Error leyendo repetición:', error);
+            return null;
+        }
+    }
+}
+
+export const actionRecorder = new ActionRecorder();
@@ -65,6 +65,7 @@ class AudioManager {
   private audioContext: AudioContext | null = null;
   private listeners: (() => void)[] = [];
   private preloadedTracks: Set<string> = new Set();
+  private muted: boolean = false; // Silencio temporal (modo sin interfaz), no se persiste
 
   private constructor() {
     this.config = this.loadConfig();
@@ -231,7 +232,7 @@ class AudioManager {
    * Reproduce música de fondo
    */
   async playMusic(trackId: MusicTrackId, fadeIn: boolean = true): Promise<void> {
-    if (!this.config.musicEnabled) return;
+    if (!this.config.musicEnabled || this.muted) return;
 
     const trackKey = `${this.config.currentScenario}-${trackId}`;
     let audio = this.musicTracks.get(trackKey);
@@ -284,7 +285,7 @@ class AudioManager {
    * Reproduce efecto de sonido
    */
   async playEffect(effectId: EffectId, volume: number = 1.0, loop: boolean = false): Promise<void> {
-    if (!this.config.effectsEnabled) return;
+    if (!this.config.effectsEnabled || this.muted) return;
 
     // Para efectos, usar key global ya que son compartidos
     const effectKey = `global-${effectId}`;
@@ -479,6 +480,13 @@ class AudioManager {
     this.notify();
   }
 
+  /**
+   * Silencia todo el audio sin tocar la configuración guardada del jugador
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+  }
+
   /**
    * Getters para configuración
    */
@@ -0,0 +1,119 @@
+// src/engine/BotPolicies.ts
+
+/**
+ * Políticas de bot para las simulaciones sin interfaz.
+ * Cada política decide, en la fase de acción del jugador, el siguiente
+ * comando a ejecutar con el mismo formato que las repeticiones.
+ */
+
+import { gameStateManager } from './GameStateManager';
+import { nodeSystem } from './NodeSystem';
+import { randomSystem } from './RandomSystem';
+import { legalActionSystem } from './LegalActionSystem';
+import { statusEffectSystem } from './StatusEffectSystem';
+import type { ReplayAction } from './ActionRecorder';
+import { getSelectableOptions } from './ChoiceSystem';
+import type { ChoicePolicy } from './ChoiceSystem';
+import type { Card, Suit } from './types';
+
+export interface BotPolicy {
+    id: string;
+    description: string;
+    /** Devuelve la siguiente acción; 'endPlayerTurn' para pasar el turno */
+    chooseAction(): ReplayAction;
+    /** Responde a las elecciones de los efectos; si falta, se elige al azar */
+    chooseOptions?: ChoicePolicy;
+}
+
+const LOW_SANITY = 8;
+
+// Cartas jugables del palo, de mayor a menor valor
+const cardsOfSuit = (suit: Suit): Card[] =>
+    gameStateManager.hand
+        .filter(card => card.suit === suit && legalActionSystem.checkCardPlay(card).allowed)
+        .sort((a, b) => b.value - a.value);
+
+/**
+ * Bot codicioso: se cura si la cordura está baja, repara nodos dañados,
+ * expone al Eco antes de atacar y ataca con la carta de mayor valor.
+ */
+export const greedyBot: BotPolicy = {
+    id: 'greedy',
+    description: 'Prioriza curarse, reparar nodos y atacar con la carta más alta',
+    chooseAction(): ReplayAction {
+        if (gameStateManager.pa < 1) {
+            return { type: 'endPlayerTurn' };
+        }
+
+        const spades = cardsOfSuit('Spades');
+        const hearts = cardsOfSuit('Hearts');
+        const clubs = cardsOfSuit('Clubs');
+        const diamonds = cardsOfSuit('Diamonds');
+
+        if (gameStateManager.sanity <= LOW_SANITY && hearts.length > 0) {
+            return { type: 'playCard', cardId: hearts[0].id };
+        }
+
+        const damagedNode = nodeSystem.allNodes
+            .filter(node => node.damage > 0 && !node.isCollapsed)
+            .sort((a, b) => b.damage - a.damage)[0];
+        if (damagedNode && clubs.length > 0 && legalActionSystem.checkRepair(damagedNode.id, [clubs[0]]).allowed) {
+            return { type: 'repairNode', nodeId: damagedNode.id, cardIds: [clubs[0].id] };
+        }
+
+        if (spades.length > 0) {
+            // Con PA de sobra, exponer primero al Eco duplica el daño del ataque
+            if (!statusEffectSystem.hasStatus('ECO', 'EXPOSED') && clubs.length > 0 && gameStateManager.pa >= 2) {
+                return { type: 'playCard', cardId: clubs[clubs.length - 1].id };
+            }
+            return { type: 'playCard', cardId: spades[0].id };
+        }
+
+        if (hearts.length > 0 && gameStateManager.sanity < gameStateManager.maxSanity) {
+            return { type: 'playCard', cardId: hearts[0].id };
+        }
+        if (diamonds.length > 0) {
+            return { type: 'playCard', cardId: diamonds[0].id };
+        }
+        return { type: 'endPlayerTurn' };
+    },
+    chooseOptions(prompt) {
+        const options = getSelectableOptions(prompt);
+        if (prompt.kind === 'cards') {
+            // Se queda con las cartas altas; al reordenar el mazo, las roba primero
+            options.sort((a, b) => (a.card?.value ?? 0) - (b.card?.value ?? 0));
+            if (prompt.ordered) options.reverse();
+        } else if (prompt.kind === 'node') {
+            // Repara el nodo más dañado; si hay que dañar uno, el más entero
+            const damageRatio = (option: typeof options[number]) =>
+                option.node ? option.node.damage / option.node.maxDamage : 0;
+            options.sort((a, b) => prompt.harmful ? damageRatio(a) - damageRatio(b) : damageRatio(b) - damageRatio(a));
+        }
+        return options.slice(0, prompt.count).map(option => option.id);
+    }
+};
+
+/**
+ * Bot aleatorio: juega cualquier carta jugable o roba, y pasa al quedarse sin PA.
+ * Usa el RNG de la partida, así que la simulación sigue siendo reproducible.
+ */
+export const randomBot: BotPolicy = {
+    id: 'random',
+    description: 'Elige al azar entre las cartas jugables y robar',
+    chooseAction(): ReplayAction {
+        if (gameStateManager.pa < 1 || randomSystem.chance(0.1)) {
+            return { type: 'endPlayerTurn' };
+        }
+
+        const options = legalActionSystem.getLegalActions()
+            .filter(legal => legal.action.type === 'playCard' || legal.action.type === 'drawCard')
+            .map(legal => legal.action);
+
+        return randomSystem.pick(options) ?? { type: 'endPlayerTurn' };
+    }
+};
+
+export const botPolicies: Record<string, BotPolicy> = {
+    [greedyBot.id]: greedyBot,
+    [randomBot.id]: randomBot,
+};
@@ -1,30 +1,39 @@
 // src/engine/CardEffectEngine.ts
 
-import type { Card } from './types';
+import type { Card, ComboRule } from './types';
 import { gameStateManager } from './GameStateManager';
 import { deckManager } from './DeckManager';
 import { gameLogSystem } from './GameLogSystem';
 import { nodeSystem } from './NodeSystem';
 import { scenarioRulesEngine } from './ScenarioRulesEngine';
 import { scoreSystem } from './ScoreSystem';
+import { actionRecorder } from './ActionRecorder';
+import { gameEventBus } from './GameEventBus';
+import { legalActionSystem } from './LegalActionSystem';
+import { undoSystem } from './UndoSystem';
+import { statusEffectSystem, PERMANENT_DURATION } from './StatusEffectSystem';
+import { ecoDefenseSystem } from './EcoDefenseSystem';
 
 class CardEffectEngine {
+    /**
+     * Resuelve una carta ya validada con legalActionSystem.checkCardPlay
+     */
     applyEffect(card: Card) {
-        // Verificar efectos de alucinaciones
-        if (card.suit === 'Spades' && gameStateManager.playerStatusEffects.includes('cannotPlaySpades')) {
-            gameLogSystem.addMessage("No puedes jugar Espadas este turno debido a un efecto de alucinación.", 'player', 'info');
-            return;
-        }
-
         // Intentar usar el sistema de reglas dinámicas primero
         if (scenarioRulesEngine.hasRules) {
-            const applied = scenarioRulesEngine.applyPlayerCardEffect(card);
-            if (applied) {
+            const result = scenarioRulesEngine.applyPlayerCardEffect(card);
+            if (result === 'applied') {
                 // Descartar la carta jugada
                 deckManager.discard([card]);
                 console.log(`🎲 CardEffectEngine: Efecto aplicado usando reglas dinámicas para ${card.rank} ${card.suit}`);
                 return;
             }
+            if (result === 'unpayable') {
+                // La regla existe pero no se pudo pagar: la carta no se juega
+                gameStateManager.addCardsToHand([card]);
+                console.log(`🎲 CardEffectEngine: Coste impagable para ${card.rank} ${card.suit}, la carta vuelve a la mano`);
+                return;
+            }
         }
 
         // Fallback al sistema hardcoded original
@@ -43,40 +52,37 @@ class CardEffectEngine {
 
         switch (card.suit) {
             case 'Spades': { // ♠ Ataque
-                let damage = card.value + gameStateManager.criticalDamageBoost;
-                let isCritical = gameStateManager.criticalDamageBoost > 0;
-                
-                if (gameStateManager.isEcoExposed) {
-                    damage *= 2;
-                    gameLogSystem.addMessage("Eco is exposed! Damage doubled.", 'system', 'info');
-                    gameStateManager.isEcoExposed = false;
-                    isCritical = true;
-                }
+                const baseDamage = card.value + gameStateManager.criticalDamageBoost;
+                const modified = statusEffectSystem.modifyDamage(baseDamage, 'PLAYER', 'ECO');
+                const damage = ecoDefenseSystem.absorb(modified.amount).damage;
+                const isCritical = gameStateManager.criticalDamageBoost > 0 || modified.critical;
                 
                 gameStateManager.dealDamageToEco(damage);
-                gameLogSystem.addMessage(`Dealt ${damage} damage to the Eco.`, 'player', 'attack');
-                
-                // Score the damage dealt
-                scoreSystem.scoreEcoDamage(damage, isCritical);
                 
-                // Check if Eco is defeated
-                if (gameStateManager.ecoHp <= 0) {
-                    scoreSystem.scoreEcoDefeat();
-                }
+                // Log, puntuación y derrota del Eco reaccionan al evento
+                gameEventBus.publish('DamageDealt', {
+                    source: 'PLAYER',
+                    target: 'ECO',
+                    stat: 'HP',
+                    amount: damage,
+                    critical: isCritical,
+                    remaining: gameStateManager.ecoHp,
+                });
                 break;
             }
-            case 'Hearts': // ♥ Recuperar COR
-                gameStateManager.recoverSanity(card.value);
-                gameLogSystem.addMessage(`Recovered ${card.value} COR.`, 'player', 'heal');
+            case 'Hearts': { // ♥ Recuperar COR
+                const healing = statusEffectSystem.modifyHealing(card.value, 'PLAYER');
+                gameStateManager.recoverSanity(healing);
+                gameLogSystem.addMessage(`Recovered ${healing} COR.`, 'player', 'heal');
                 
                 // Score the healing
-                scoreSystem.addScore('heal_received', card.value * scoreSystem['SCORE_VALUES']?.heal_received || card.value * 5, { amount: card.value });
+                scoreSystem.addScore('heal_received', healing * scoreSystem['SCORE_VALUES']?.heal_received || healing * 5, { amount: healing });
                 break;
+            }
             case 'Clubs': // ♣ Investigar/Reparar
                 // This action now has a dual purpose. The UI will decide which one to call.
                 // For now, playing it directly will "expose" the Eco.
-                gameStateManager.isEcoExposed = true;
-                gameLogSystem.addMessage("Eco is now exposed. Next attack deals double damage.", 'player', 'research');
+                statusEffectSystem.apply('ECO', 'EXPOSED', PERMANENT_DURATION, 1, 'PLAYER');
                 
                 // Score the tactical advantage
                 scoreSystem.addScore('status_applied', undefined, { status: 'exposed', target: 'eco' });
@@ -100,61 +106,50 @@ class CardEffectEngine {
         deckManager.discard([card]);
     }
 
-    repairNode(nodeId: string, cards: Card[]) {
-        // Validate that all cards are Clubs
-        const nonClubCards = cards.filter(card => card.suit !== 'Clubs');
-        if (nonClubCards.length > 0) {
-            gameLogSystem.addMessage('Only Club cards can be used for repairs.', 'system', 'info');
-            return;
-        }
-
-        if (cards.length === 0) {
-            gameLogSystem.addMessage('No cards selected for repair.', 'system', 'info');
+    /**
+     * Resuelve una combinación ya validada con legalActionSystem.checkCombo
+     */
+    applyCombo(combo: ComboRule, cards: Card[]) {
+        if (!scenarioRulesEngine.applyComboEffect(combo, cards)) {
+            // El motivo del fallo de pago ya está en el log; las cartas no se pierden
+            gameStateManager.addCardsToHand(cards);
+            gameLogSystem.addMessage(`No se pudo jugar ${combo.name}: las cartas vuelven a tu mano.`, 'player', 'info');
             return;
         }
+        console.log(`🎲 CardEffectEngine: Combo ${combo.name} aplicado con ${cards.length} cartas`);
+        deckManager.discard(cards);
+    }
 
-        const totalValue = cards.reduce((sum, card) => sum + card.value, 0);
-        const node = nodeSystem.getNode(nodeId);
+    repairNode(nodeId: string, cards: Card[]) {
+        actionRecorder.record({ type: 'repairNode', nodeId, cardIds: cards.map(card => card.id) });
 
-        if (!node) {
-            gameLogSystem.addMessage('Invalid node selected.', 'system', 'info');
+        const check = legalActionSystem.checkRepair(nodeId, cards);
+        if (!check.allowed) {
+            gameLogSystem.addMessage(check.reason!, 'player', 'info');
             return;
         }
 
-        if (node.damage === 0) {
-            gameLogSystem.addMessage('Selected node does not need repairs.', 'system', 'info');
-            return;
-        }
-        
-        if (gameStateManager.pa < cards.length) {
-            gameLogSystem.addMessage('Not enough action points to repair.', 'system', 'info');
-            return;
-        }
-
-        const repairAmount = Math.floor(totalValue / 5); // Repair formula: total value / 5
-        if (repairAmount > 0) {
-            nodeSystem.repairNode(nodeId, repairAmount);
-            const apSpent = gameStateManager.spendActionPoints(cards.length);
-            if (apSpent) {
-                deckManager.discard(cards);
-                gameLogSystem.addMessage(`Used ${cards.length} card(s) to repair ${repairAmount} damage on node ${node.name}.`, 'player', 'node_repair');
-                
-                // Score the node repair
-                scoreSystem.scoreNodeAction('repaired', nodeId);
-                
-                // Remove cards from hand
-                cards.forEach(card => {
-                    gameStateManager.hand = gameStateManager.hand.filter(c => c.id !== card.id);
-                });
-            } else {
-                gameLogSystem.addMessage("Failed to spend action points for repair.", 'system', 'info');
-            }
+        const node = nodeSystem.getNode(nodeId)!;
+        undoSystem.capture(`reparar ${node.name}`);
+        const repairAmount = legalActionSystem.getRepairAmount(cards); // Repair formula: total value / 5
+        nodeSystem.repairNode(nodeId, repairAmount);
+        const apSpent = gameStateManager.spendActionPoints(cards.length);
+        if (apSpent) {
+            deckManager.discard(cards);
+            gameLogSystem.addMessage(`Used ${cards.length} card(s) to repair ${repairAmount} damage on node ${node.name}.`, 'player', 'node_repair');
+            
+            // Remove cards from hand
+            cards.forEach(card => {
+                gameStateManager.hand = gameStateManager.hand.filter(c => c.id !== card.id);
+            });
         } else {
-            gameLogSystem.addMessage("Cards' total value is not high enough to repair the node (minimum 5 total value needed).", 'player', 'info');
+            gameLogSystem.addMessage("Failed to spend action points for repair.", 'system', 'info');
         }
     }
     
     focusAction(cards: Card[]) {
+        actionRecorder.record({ type: 'focusAction', cardIds: cards.map(card => card.id) });
+
         // Focus action uses Hearts cards to recover sanity and gain temporary bonuses
         const heartCards = cards.filter(card => card.suit === 'Hearts');
         if (heartCards.length === 0) {
@@ -167,8 +162,10 @@ class CardEffectEngine {
             return;
         }
         
+        undoSystem.capture('concentrarse');
+        
         const totalValue = heartCards.reduce((sum, card) => sum + card.value, 0);
-        const sanityRecovered = Math.floor(totalValue * 1.5); // Focus recovers 150% of card value
+        const sanityRecovered = statusEffectSystem.modifyHealing(Math.floor(totalValue * 1.5), 'PLAYER'); // Focus recovers 150% of card value
         const criticalBoost = Math.floor(totalValue / 3); // Critical damage boost
         
         gameStateManager.recoverSanity(sanityRecovered);
@@ -195,6 +192,8 @@ class CardEffectEngine {
     }
     
     searchAction(cards: Card[], searchType: 'specific' | 'any' = 'any') {
+        actionRecorder.record({ type: 'searchAction', cardIds: cards.map(card => card.id), searchType });
+
         // Search action uses Diamond cards to draw cards from deck
         const diamondCards = cards.filter(card => card.suit === 'Diamonds');
         if (diamondCards.length === 0) {
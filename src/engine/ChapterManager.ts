@@ -48,6 +48,7 @@ export interface ChapterConfig {
   difficultyModifiers: {
     ecoAIDifficulty: number;
     eventFrequency: number;
+    eventGraceTurns?: number; // Turnos iniciales sin eventos (3 si no se indica)
     resourceScarcity: number;
     startingBonus?: { [stat: string]: number };
   };
@@ -63,6 +64,7 @@ export interface ChapterConfig {
   specialRules?: string[];
   rewards?: ChapterReward[];
   scoreMultiplier: number;
+  allowUndo?: boolean; // false desactiva deshacer acciones (por defecto permitido)
 }
 
 export interface VictoryCondition {
@@ -280,6 +282,7 @@ class ChapterManager {
       difficultyModifiers: {
         ecoAIDifficulty: 0.7,
         eventFrequency: 0.6,
+        eventGraceTurns: 4,
         resourceScarcity: 0.8,
         startingBonus: { PV: 5, COR: 5 } // Extra life and sanity for tutorial
       },
@@ -318,6 +321,7 @@ class ChapterManager {
       difficultyModifiers: {
         ecoAIDifficulty: 1.0,
         eventFrequency: 1.0,
+        eventGraceTurns: 3,
         resourceScarcity: 1.0
       },
       unlockRequirements: {
@@ -335,7 +339,8 @@ class ChapterManager {
           description: 'Desbloquea: Capítulo 2 - Descenso'
         }
       ],
-      scoreMultiplier: 1.3
+      scoreMultiplier: 1.3,
+      allowUndo: false
     };
 
     // Chapter 2: Medium complexity
@@ -364,6 +369,7 @@ class ChapterManager {
       difficultyModifiers: {
         ecoAIDifficulty: 1.2,
         eventFrequency: 1.2,
+        eventGraceTurns: 2,
         resourceScarcity: 1.1
       },
       unlockRequirements: {
@@ -390,7 +396,8 @@ class ChapterManager {
           description: 'Aumenta permanentemente el tamaño máximo de mano'
         }
       ],
-      scoreMultiplier: 1.5
+      scoreMultiplier: 1.5,
+      allowUndo: false
     };
 
     this.chapters['chapter_2_nightmare'] = {
@@ -423,6 +430,7 @@ class ChapterManager {
       difficultyModifiers: {
         ecoAIDifficulty: 1.5,
         eventFrequency: 1.4,
+        eventGraceTurns: 1,
         resourceScarcity: 1.3,
         startingBonus: { PV: -2, COR: -2 } // Penalty for nightmare mode
       },
@@ -457,7 +465,8 @@ class ChapterManager {
           description: 'Desbloquea el escenario: Ciudad Fragmentada'
         }
       ],
-      scoreMultiplier: 2.0
+      scoreMultiplier: 2.0,
+      allowUndo: false
     };
 
     // Chapter 3: Final challenge
@@ -486,6 +495,7 @@ class ChapterManager {
       difficultyModifiers: {
         ecoAIDifficulty: 1.8,
         eventFrequency: 1.5,
+        eventGraceTurns: 1,
         resourceScarcity: 1.4,
         startingBonus: { handSize: -1 } // Start with fewer cards
       },
@@ -521,7 +531,8 @@ class ChapterManager {
           description: 'Maestría Táctica: +1 PA permanente'
         }
       ],
-      scoreMultiplier: 3.0
+      scoreMultiplier: 3.0,
+      allowUndo: false
     };
   }
 
@@ -892,6 +903,24 @@ class ChapterManager {
     );
   }
 
+  // Snapshot for mid-game save/resume
+  serialize(): { chapterId: string | null; currentScore: number } {
+    return {
+      chapterId: this.currentChapter?.id || null,
+      currentScore: this.currentScore
+    };
+  }
+
+  async restore(snapshot: { chapterId: string | null; currentScore: number }): Promise<boolean> {
+    if (snapshot.chapterId && this.currentChapter?.id !== snapshot.chapterId) {
+      const selected = await this.selectChapter(snapshot.chapterId);
+      if (!selected) return false;
+    }
+    this.currentScore = snapshot.currentScore;
+    this.notify();
+    return true;
+  }
+
   getScenarioAssets(scenarioId: string): ScenarioAssets | null {
     return this.loadedAssets[scenarioId] || null;
   }
@@ -0,0 +1,168 @@
+// src/engine/ChoiceSystem.ts
+
+/**
+ * Elecciones del jugador durante la resolución de efectos.
+ * Un efecto con objetivo CHOICE pide elegir cartas de la mano, un nodo o una
+ * opción; la resolución queda en pausa hasta que llega la respuesta. En modo
+ * headless (bots y simulación) una política responde al momento.
+ */
+
+import type { Card, Node } from './types';
+import { randomSystem } from './RandomSystem';
+
+export type ChoiceKind = 'cards' | 'node' | 'option';
+
+export interface ChoiceOption {
+    id: string;
+    label: string;
+    description?: string;
+    card?: Card; // Para elecciones de cartas
+    node?: Node; // Para elecciones de nodos
+    disabledReason?: string; // Se muestra pero no se puede elegir (requisitos de las opciones de eventos)
+}
+
+export interface ChoicePrompt {
+    kind: ChoiceKind;
+    title: string;
+    description?: string;
+    options: ChoiceOption[];
+    count: number; // Opciones que hay que elegir
+    harmful?: boolean; // Lo elegido sale perjudicado (descartar, dañar un nodo)
+    ordered?: boolean; // El orden de la respuesta importa (reordenar el mazo)
+    eventId?: string; // Opciones de un evento: las presenta EventVisualSystem junto al evento
+}
+
+/**
+ * Responde a una elección sin intervención del jugador
+ * @returns los ids de las opciones elegidas
+ */
+export type ChoicePolicy = (prompt: ChoicePrompt) => string[];
+
+interface PendingChoice {
+    prompt: ChoicePrompt;
+    onAnswer: (optionIds: string[]) => void;
+}
+
+/**
+ * Opciones que se pueden elegir (las bloqueadas solo se muestran)
+ */
+export const getSelectableOptions = (prompt: ChoicePrompt): ChoiceOption[] =>
+    prompt.options.filter(option => !option.disabledReason);
+
+/**
+ * Política por defecto sin interfaz: elige al azar con el RNG de la partida
+ */
+export const randomChoicePolicy: ChoicePolicy = prompt =>
+    randomSystem.shuffle(getSelectableOptions(prompt).map(option => option.id)).slice(0, prompt.count);
+
+class ChoiceSystem {
+    private queue: PendingChoice[] = [];
+    private autoPolicy: ChoicePolicy | null = null;
+    private listeners: (() => void)[] = [];
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    get isPending(): boolean {
+        return this.queue.length > 0;
+    }
+
+    /**
+     * Elección que espera respuesta del jugador
+     */
+    get pendingPrompt(): ChoicePrompt | null {
+        return this.queue[0]?.prompt ?? null;
+    }
+
+    /**
+     * Política que responde automáticamente (null = preguntar al jugador)
+     */
+    setAutoPolicy(policy: ChoicePolicy | null) {
+        this.autoPolicy = policy;
+    }
+
+    get currentAutoPolicy(): ChoicePolicy | null {
+        return this.autoPolicy;
+    }
+
+    /**
+     * Pide una elección. Si no hay nada que decidir (no hay más opciones que las
+     * que se piden) o hay política automática, responde sin esperar.
+     * Las opciones de un evento se muestran siempre, aunque solo quede una.
+     */
+    request(prompt: ChoicePrompt, onAnswer: (optionIds: string[]) => void) {
+        const selectable = getSelectableOptions(prompt);
+        const count = Math.min(prompt.count, selectable.length);
+        if (count <= 0) {
+            onAnswer([]);
+            return;
+        }
+        if (count === selectable.length && (!prompt.ordered || count === 1) && !prompt.eventId) {
+            onAnswer(selectable.map(option => option.id));
+            return;
+        }
+
+        const normalized = { ...prompt, count };
+        if (this.autoPolicy) {
+            const optionIds = this.autoPolicy(normalized);
+            if (this.isValidAnswer(normalized, optionIds)) {
+                onAnswer(optionIds);
+            } else {
+                console.warn(`⚠️ ChoiceSystem: Respuesta automática inválida para "${prompt.title}", eligiendo al azar`);
+                onAnswer(randomChoicePolicy(normalized));
+            }
+            return;
+        }
+
+        this.queue.push({ prompt: normalized, onAnswer });
+        console.log(`❓ ChoiceSystem: Esperando elección "${prompt.title}" (${count} de ${prompt.options.length})`);
+        this.notify();
+    }
+
+    /**
+     * Responde a la elección pendiente y reanuda la resolución del efecto
+     * @returns false si no hay elección pendiente o la respuesta no es válida
+     */
+    answer(optionIds: string[]): boolean {
+        const current = this.queue[0];
+        if (!current) {
+            console.warn('⚠️ ChoiceSystem: No hay ninguna elección pendiente');
+            return false;
+        }
+        if (!this.isValidAnswer(current.prompt, optionIds)) {
+            console.warn(`⚠️ ChoiceSystem: Respuesta inválida para "${current.prompt.title}": ${optionIds.join(', ')}`);
+            return false;
+        }
+
+        this.queue.shift();
+        this.notify();
+        current.onAnswer(optionIds);
+        return true;
+    }
+
+    private isValidAnswer(prompt: ChoicePrompt, optionIds: string[]): boolean {
+        const validIds = new Set(getSelectableOptions(prompt).map(option => option.id));
+        return optionIds.length === prompt.count
+            && new Set(optionIds).size === optionIds.length
+            && optionIds.every(id => validIds.has(id));
+    }
+
+    /**
+     * Descarta las elecciones pendientes (nueva partida o partida cargada)
+     */
+    reset() {
+        if (this.queue.length === 0) return;
+        this.queue = [];
+        this.notify();
+    }
+}
+
+export const choiceSystem = new ChoiceSystem();
@@ -3,6 +3,8 @@
 import type { Card, Event, Suit } from './types';
 import cardsData from '../data/cards.json';
 import { scenarioLoader } from './ScenarioLoader';
+import { randomSystem } from './RandomSystem';
+import { gameEventBus } from './GameEventBus';
 
 function mapSuitToType(suit: string): Suit {
     switch (suit.toLowerCase()) {
@@ -14,6 +16,13 @@ function mapSuitToType(suit: string): Suit {
     }
 }
 
+export interface DeckSnapshot {
+    deck: Card[];
+    discardPile: Card[];
+    ecoDeck: Card[];
+    ecoDiscardPile: Card[];
+}
+
 class DeckManager {
     private deck: Card[] = [];
     private discardPile: Card[] = [];
@@ -57,25 +66,25 @@ class DeckManager {
     }
 
     shuffle() {
-        for (let i = this.deck.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [this.deck[i], this.deck[j]] = [this.deck[j], this.deck[i]];
-        }
+        randomSystem.shuffle(this.deck);
     }
 
     shuffleEcoDeck() {
-        for (let i = this.ecoDeck.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [this.ecoDeck[i], this.ecoDeck[j]] = [this.ecoDeck[j], this.ecoDeck[i]];
-        }
+        randomSystem.shuffle(this.ecoDeck);
+    }
+
+    get deckSize(): number {
+        return this.deck.length;
     }
 
     drawCards(count: number = 1): Card[] {
         console.log(`🎴 DeckManager: Robando ${count} carta(s) para jugador. Mazo actual: ${this.deck.length}`);
         const drawnCards: Card[] = [];
+        let reshuffled = 0;
         for (let i = 0; i < count; i++) {
             if (this.deck.length === 0) {
                 console.log(`🔄 DeckManager: Mazo vacío, mezclando descarte (${this.discardPile.length} cartas)`);
+                reshuffled += this.discardPile.length;
                 this.deck = [...this.discardPile];
                 this.discardPile = [];
                 this.shuffle();
@@ -86,15 +95,24 @@ class DeckManager {
                 console.log(`✅ DeckManager: Robada carta: ${card.rank} de ${card.suit}`);
             }
         }
+        // Se publica al terminar de robar: quien reaccione puede volver a robar
+        if (reshuffled > 0) {
+            gameEventBus.publish('DeckReshuffled', { source: 'PLAYER', count: reshuffled });
+        }
+        if (drawnCards.length > 0) {
+            gameEventBus.publish('CardsDrawn', { source: 'PLAYER', count: drawnCards.length });
+        }
         return drawnCards;
     }
 
     drawFromEcoDeck(count: number = 1): Card[] {
         console.log(`🧪 DeckManager: Eco robando ${count} carta(s). Mazo Eco actual: ${this.ecoDeck.length}`);
         const drawnCards: Card[] = [];
+        let reshuffled = 0;
         for (let i = 0; i < count; i++) {
             if (this.ecoDeck.length === 0) {
                 console.log(`🔄 DeckManager: Mazo Eco vacío, mezclando descarte (${this.ecoDiscardPile.length} cartas)`);
+                reshuffled += this.ecoDiscardPile.length;
                 this.ecoDeck = [...this.ecoDiscardPile];
                 this.ecoDiscardPile = [];
                 this.shuffleEcoDeck();
@@ -105,6 +123,12 @@ class DeckManager {
                 console.log(`✅ DeckManager: Eco robó carta: ${card.rank} de ${card.suit}`);
             }
         }
+        if (reshuffled > 0) {
+            gameEventBus.publish('DeckReshuffled', { source: 'ECO', count: reshuffled });
+        }
+        if (drawnCards.length > 0) {
+            gameEventBus.publish('CardsDrawn', { source: 'ECO', count: drawnCards.length });
+        }
         return drawnCards;
     }
 
@@ -116,6 +140,14 @@ class DeckManager {
         this.ecoDiscardPile.push(...cards);
     }
 
+    /**
+     * Carta de la baraja con ese palo y rango (para transformar cartas)
+     */
+    findCard(suit: Suit, rank: string): Card | undefined {
+        const data = cardsData.find(card => mapSuitToType(card.suit) === suit && card.rank === rank);
+        return data ? { ...data, suit } : undefined;
+    }
+
     getEvent(cardId: string): Event | undefined {
         return this.events.find(event => event.id === cardId);
     }
@@ -124,6 +156,72 @@ class DeckManager {
         this.deck.push(card);
     }
 
+    /**
+     * Devuelve el descarte al mazo y lo baraja
+     * @returns número de cartas recuperadas
+     */
+    shuffleDiscardIntoDeck(): number {
+        const count = this.discardPile.length;
+        this.deck.push(...this.discardPile);
+        this.discardPile = [];
+        this.shuffle();
+        if (count > 0) {
+            gameEventBus.publish('DeckReshuffled', { source: 'PLAYER', count });
+        }
+        return count;
+    }
+
+    shuffleEcoDiscardIntoDeck(): number {
+        const count = this.ecoDiscardPile.length;
+        this.ecoDeck.push(...this.ecoDiscardPile);
+        this.ecoDiscardPile = [];
+        this.shuffleEcoDeck();
+        if (count > 0) {
+            gameEventBus.publish('DeckReshuffled', { source: 'ECO', count });
+        }
+        return count;
+    }
+
+    /**
+     * Cartas superiores del mazo, empezando por la que se robará primero
+     */
+    peekTop(count: number): Card[] {
+        return count > 0 ? this.deck.slice(-count).reverse() : [];
+    }
+
+    /**
+     * Coloca en otro orden las cartas devueltas por peekTop (la primera queda arriba)
+     */
+    reorderTop(cards: Card[]) {
+        this.deck.splice(this.deck.length - cards.length, cards.length, ...[...cards].reverse());
+    }
+
+    /**
+     * Saca del descarte las cartas indicadas (por referencia)
+     */
+    takeFromDiscard(cards: Card[]): Card[] {
+        const taken = cards.filter(card => this.discardPile.includes(card));
+        this.discardPile = this.discardPile.filter(card => !taken.includes(card));
+        return taken;
+    }
+
+    /**
+     * Retira del mazo y del descarte hasta max cartas que cumplan la condición
+     */
+    removeCards(predicate: (card: Card) => boolean, max: number): Card[] {
+        const removed: Card[] = [];
+        const keep = (card: Card) => {
+            if (removed.length < max && predicate(card)) {
+                removed.push(card);
+                return false;
+            }
+            return true;
+        };
+        this.deck = this.deck.filter(keep);
+        this.discardPile = this.discardPile.filter(keep);
+        return removed;
+    }
+
     getDeckCount(): number {
         return this.deck.length;
     }
@@ -135,6 +233,22 @@ class DeckManager {
     getDiscardPile(): Card[] {
         return this.discardPile;
     }
+
+    serialize(): DeckSnapshot {
+        return {
+            deck: [...this.deck],
+            discardPile: [...this.discardPile],
+            ecoDeck: [...this.ecoDeck],
+            ecoDiscardPile: [...this.ecoDiscardPile],
+        };
+    }
+
+    restore(snapshot: DeckSnapshot) {
+        this.deck = [...snapshot.deck];
+        this.discardPile = [...snapshot.discardPile];
+        this.ecoDeck = [...snapshot.ecoDeck];
+        this.ecoDiscardPile = [...snapshot.ecoDiscardPile];
+    }
 }
 
 export const deckManager = new DeckManager();
@@ -11,117 +11,402 @@ import { vfxSystem } from './VFXSystem';
 import { chapterManager } from './ChapterManager';
 import { scoreSystem } from './ScoreSystem';
 import { audioManager } from './AudioManager';
+import { randomSystem } from './RandomSystem';
+import { gameClock } from './GameClock';
+import { gameEventBus } from './GameEventBus';
+import { statusEffectSystem } from './StatusEffectSystem';
+import type { EcoAttackPreview } from './ScenarioRulesEngine';
+import type { EcoStateConfig, EcoPhaseEffect } from './EcoStateSystem';
 import type { Card } from './types';
 
+const ECO_HAND_SIZE = 5;      // El Eco rellena la mano hasta aquí al comienzo de su turno
+const NODE_DAMAGE_WEIGHT = 4; // Un punto de daño a un nodo pesa como varios de PV o COR
+const CHOICE_SHARPNESS = 0.5; // Exponente de los pesos por punto de agresividad de la fase
+const DEFAULT_ABILITY = 'basic_attack';  // Fases sin effects
+// Habilidades que juegan una carta de la mano: la primera usa la carta anunciada
+const ATTACK_ABILITIES = ['basic_attack', 'enhanced_attack', 'double_attack'];
+
+export interface EcoAbilityContext {
+    modifiers: EcoStateConfig['behaviorModifiers'];
+    difficulty: number; // ecoAIDifficulty del capítulo
+    value?: number;     // Cantidad base indicada en eco.json
+}
+
+// Una habilidad llama a done al terminar para que empiece la siguiente
+export type EcoAbility = (context: EcoAbilityContext, done: () => void) => void;
+
+/**
+ * Próximo ataque al que se compromete el Eco al comenzar la fase de acción del jugador.
+ * Algunas fases lo ocultan o enseñan el de otra carta de la mano (intent en eco.json).
+ */
+export interface EcoIntent {
+    card: Card;                      // Carta que jugará el primer ataque del turno
+    shown: EcoAttackPreview | null;  // Lo que ve el jugador (null = oculto)
+    falsified: boolean;              // shown corresponde a otra carta
+}
+
+export interface EcoAISnapshot {
+    hand: Card[];
+    currentPhase: string;
+    intent: EcoIntent | null;
+}
+
 export class EcoAI {
     public hand: Card[] = [];
     public currentPhase: string = 'vigilante';
     private difficultyMultiplier: number = 1.0;
+    private abilities: Record<string, EcoAbility> = this.createAbilities();
+    private currentIntent: EcoIntent | null = null;
+    private turnIntent: EcoIntent | null = null; // Intención que cumple el primer ataque del turno en curso
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        scenarioRulesEngine.setEcoHandReceiver(cards => {
+            this.hand = [...this.hand, ...cards];
+            this.notify();
+        });
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    get intent(): EcoIntent | null {
+        return this.currentIntent;
+    }
 
     setHand(hand: Card[]) {
         this.hand = hand;
+        this.currentIntent = null;
+        this.notify();
+    }
+
+    serialize(): EcoAISnapshot {
+        return { hand: [...this.hand], currentPhase: this.currentPhase, intent: this.currentIntent };
+    }
+
+    restore(snapshot: EcoAISnapshot) {
+        this.hand = [...snapshot.hand];
+        this.currentPhase = snapshot.currentPhase;
+        this.currentIntent = snapshot.intent;
+        this.notify();
+    }
+
+    /**
+     * Comienzo de la fase de acción del jugador: el Eco completa la mano y elige
+     * la carta de su próximo ataque. Según la fase, el anuncio se oculta o miente.
+     */
+    commitIntent() {
+        this.currentIntent = null;
+        // La fase queda fijada hasta el próximo anuncio: el ataque cumple lo anunciado
+        // aunque el jugador haga cambiar el estado del Eco durante su turno
+        this.updateDifficultyMultiplier();
+        this.updatePhase();
+        const config = this.getPhaseConfig();
+        const attack = (config?.effects ?? [DEFAULT_ABILITY])
+            .map(effect => typeof effect === 'string' ? effect : effect.ability)
+            .find(abilityId => ATTACK_ABILITIES.includes(abilityId));
+
+        this.refillHand();
+        const card = attack ? this.chooseCard(attack === 'enhanced_attack') : undefined;
+        if (!card) {
+            this.notify();
+            return;
+        }
+
+        const power = config?.behaviorModifiers.attackPower ?? 1;
+        const decoys = this.hand.filter(c => c.id !== card.id);
+        const hidden = randomSystem.chance(config?.intent?.hideChance ?? 0);
+        const falsified = !hidden && decoys.length > 0 && randomSystem.chance(config?.intent?.falseChance ?? 0);
+        const shownCard = falsified ? randomSystem.pick(decoys)! : card;
+
+        this.currentIntent = {
+            card,
+            shown: hidden ? null : this.previewAttack(shownCard, power),
+            falsified,
+        };
+        console.log(`🔮 EcoAI: Intención ${card.rank} de ${card.suit}${hidden ? ' (oculta)' : ''}${falsified ? ` (finge ${shownCard.rank} de ${shownCard.suit})` : ''}`);
+        this.notify();
+    }
+
+    /**
+     * Daño del ataque con la carta tal como lo aplicará la fase (attackPower y estados alterados)
+     */
+    private previewAttack(card: Card, power: number): EcoAttackPreview {
+        const preview = scenarioRulesEngine.hasRules
+            ? scenarioRulesEngine.previewEcoAttack(card, power)
+            : this.estimateHardcodedAttack(card, power);
+        return {
+            pv: Math.round(preview.pv),
+            cor: Math.round(preview.cor),
+            node: Math.round(preview.node),
+        };
+    }
+
+    private estimateHardcodedAttack(card: Card, power: number = 1): EcoAttackPreview {
+        const damage = statusEffectSystem.previewDamage(Math.ceil(card.value * this.difficultyMultiplier * power), 'ECO', 'PLAYER');
+        return ['spades', 'clubs'].includes(card.suit.toLowerCase())
+            ? { pv: damage, cor: 0, node: 0 }
+            : { pv: 0, cor: damage, node: 0 };
+    }
+
+    /**
+     * Configuración de la fase fijada en el último anuncio
+     */
+    private getPhaseConfig(): EcoStateConfig | null {
+        return ecoStateSystem.getStateConfig(this.currentPhase) ?? ecoStateSystem.getCurrentConfig();
+    }
+
+    private getPhaseModifiers(): EcoStateConfig['behaviorModifiers'] {
+        return this.getPhaseConfig()?.behaviorModifiers ?? ecoStateSystem.getCurrentBehaviorModifiers();
     }
 
     takeTurn() {
         console.log(`🧪 EcoAI: Iniciando turno del Eco`);
         this.updateDifficultyMultiplier();
-        this.updatePhase();
         console.log(`🧪 EcoAI: Fase actual del Eco: ${this.currentPhase}`);
         gameLogSystem.addMessage(`El Eco entra en fase ${this.currentPhase}.`, 'eco', 'info');
-        
-        const card = deckManager.drawFromEcoDeck(1)[0];
+
+        // Solo el primer ataque cumple lo anunciado; commitIntent puede anunciar el
+        // del turno siguiente antes de que terminen los ataques de este
+        this.turnIntent = this.currentIntent;
+        this.currentIntent = null;
+        this.notify();
+
+        this.refillHand();
+        // Copia de la fase: el anuncio del turno siguiente puede cambiarla mientras siguen los ataques
+        const config = this.getPhaseConfig();
+        this.runAbilities(config?.effects ?? [DEFAULT_ABILITY], this.getPhaseModifiers(), 0);
+    }
+
+    /**
+     * Añade o reemplaza una habilidad que las fases pueden listar en effects
+     */
+    registerAbility(id: string, ability: EcoAbility) {
+        this.abilities[id] = ability;
+    }
+
+    /**
+     * Ejecuta las habilidades de la fase en orden; cada una avisa al terminar
+     * (los ataques esperan a que el jugador vea la carta)
+     */
+    private runAbilities(effects: EcoPhaseEffect[], modifiers: EcoStateConfig['behaviorModifiers'], index: number) {
+        if (index >= effects.length || gameStateManager.isGameOver) return;
+
+        const next = () => this.runAbilities(effects, modifiers, index + 1);
+        const { ability: abilityId, chance, value } = typeof effects[index] === 'string'
+            ? { ability: effects[index] as string, chance: undefined, value: undefined }
+            : effects[index] as Exclude<EcoPhaseEffect, string>;
+        const ability = this.abilities[abilityId];
+
+        if (!ability) {
+            console.warn(`⚠️ EcoAI: Habilidad desconocida en eco.json: ${abilityId}`);
+            next();
+            return;
+        }
+        if (chance !== undefined && !randomSystem.chance(Math.min(1, chance * this.difficultyMultiplier))) {
+            next();
+            return;
+        }
+
+        console.log(`🧠 EcoAI: Habilidad ${abilityId}`);
+        ability({
+            modifiers,
+            difficulty: this.difficultyMultiplier,
+            value,
+        }, next);
+    }
+
+    /**
+     * Habilidades incluidas. Los ataques escalan con attackPower y la corrupción con corruptionRate;
+     * la dificultad del capítulo escala la corrupción y la probabilidad de las habilidades con chance.
+     */
+    private createAbilities(): Record<string, EcoAbility> {
+        return {
+            basic_attack: ({ modifiers }, done) => {
+                this.attackWithHandCard(modifiers.attackPower ?? 1, done);
+            },
+            // Sin azar: siempre la carta mejor puntuada
+            enhanced_attack: ({ modifiers }, done) => {
+                this.attackWithHandCard(modifiers.attackPower ?? 1, done, true);
+            },
+            double_attack: ({ modifiers }, done) => {
+                audioManager.playEffect('attack-special', 0.9);
+                gameLogSystem.addMessage('¡El Eco ataca dos veces en un frenesí!', 'eco', 'special');
+                const power = modifiers.attackPower ?? 1;
+                this.attackWithHandCard(power, () => this.attackWithHandCard(power, done));
+            },
+            insert_hallucination: ({ modifiers, difficulty, value }, done) => {
+                const count = this.rollScaledAmount((value ?? 1) * (modifiers.corruptionRate ?? 1) * difficulty);
+                for (let i = 0; i < count; i++) {
+                    hallucinationSystem.addHallucinationToDeck();
+                }
+                if (count > 0) {
+                    gameLogSystem.addMessage(`${count} alucinación(es) se filtran en tu mazo.`, 'eco', 'hallucination');
+                }
+                done();
+            },
+            corrupt: ({ modifiers, difficulty, value }, done) => {
+                const nodes = nodeSystem.allNodes.filter(n => n.damage < n.maxDamage);
+                const node = randomSystem.pick(nodes);
+                if (node) {
+                    audioManager.playEffect('event-danger', 0.9);
+                    const nodeDamage = Math.ceil((value ?? 1) * (modifiers.corruptionRate ?? 1) * difficulty);
+                    nodeSystem.dealDamage(node.id, nodeDamage);
+                    gameLogSystem.addMessage(`El Eco corrompe ${node.name}: ${nodeDamage} de daño al nodo.`, 'eco', 'node_damage');
+                }
+                done();
+            },
+        };
+    }
+
+    /**
+     * Parte entera segura y la decimal como probabilidad de uno más
+     */
+    private rollScaledAmount(amount: number): number {
+        const whole = Math.floor(Math.max(0, amount));
+        return whole + (randomSystem.chance(amount - whole) ? 1 : 0);
+    }
+
+    /**
+     * Juega una carta de la mano: se muestra al jugador y el ataque se resuelve tras la pausa
+     */
+    private attackWithHandCard(power: number, done: () => void, bestCard: boolean = false) {
+        const card = this.takeCardFromHand(bestCard);
         if (!card) {
             console.log(`⚠️ EcoAI: No hay cartas para el Eco`);
             gameLogSystem.addMessage("El Eco no tiene cartas para jugar.", 'eco', 'info');
+            done();
             return;
         }
 
-        console.log(`🌃 EcoAI: Eco roba carta: ${card.rank} de ${card.suit}`);
-        
-        // Reveal the card to the UI
+        console.log(`🌃 EcoAI: Eco juega carta: ${card.rank} de ${card.suit}`);
         gameStateManager.ecoRevealedCard = card;
-        console.log(`👁️ EcoAI: Carta revelada al jugador`);
 
-        // Trigger advanced VFX animation for ECO playing card
-        // Posiciones correctas basadas en el layout real - ajustadas para visibilidad
-        const ecoHandPos = { x: 640, y: 120 }; // Parte superior central - donde estarían las cartas ECO
-        const playZonePos = { x: 640, y: 390 }; // Centro de la zona de juego (zona verde)
-        
-        console.log(`🎭 EcoAI: Triggering advanced ECO card play animation from hand (${ecoHandPos.x}, ${ecoHandPos.y}) to play zone (${playZonePos.x}, ${playZonePos.y})`);
-        vfxSystem.ecoPlayCard({
-            card,
-            startPosition: ecoHandPos,
-            centerPosition: playZonePos
-        });
+        // La animación de la carta revelada reacciona al evento
+        gameEventBus.publish('CardPlayed', { card, source: 'ECO', actionPointsBefore: 0 });
 
-        // Wait for animations, then execute the attack
-        setTimeout(() => {
+        gameClock.schedule(() => {
             console.log(`⚔️ EcoAI: Ejecutando ataque con carta revelada`);
-            this.executeAttack(card);
-            
-            // Discard the used card to ECO discard pile
+            this.executeAttack(card, power);
             deckManager.discardToEcoPile([card]);
-            
-            // Trigger fire discard effect after attack
-            setTimeout(() => {
-                console.log(`🔥 EcoAI: Triggering fire discard effect for used card`);
+
+            gameClock.schedule(() => {
                 vfxSystem.ecoDiscardCard({
                     card,
-                    position: playZonePos // Usar la misma posición actualizada
+                    position: { x: 640, y: 390 } // Centro de la zona de juego, donde se mostró la carta
                 });
             }, 500);
 
-            // Phase-specific special actions with difficulty scaling
-            const doubleAttackChance = this.getPhaseSpecialChance('predador', 0.2);
-            if (this.currentPhase === 'predador' && Math.random() < doubleAttackChance) {
-                // Sonido especial para doble ataque
-                audioManager.playEffect('attack-special', 0.9);
-                gameLogSystem.addMessage("Eco performs a frenzied double attack!", 'eco', 'special');
-                this.performDoubleAttack();
-            } else {
-                // Clear revealed card after a single attack
-                gameStateManager.ecoRevealedCard = null;
-            }
+            gameStateManager.ecoRevealedCard = null;
+            done();
+        }, 1500); // Tiempo para que el jugador vea la carta
+    }
 
-            if (this.currentPhase === 'predador') {
-                const hallucinationChance = this.getPhaseSpecialChance('predador', 0.7);
-                if (Math.random() < hallucinationChance) {
-                    hallucinationSystem.addHallucinationToDeck();
-                    gameLogSystem.addMessage("A hallucination seeps into your deck.", 'eco', 'hallucination');
-                }
+    /**
+     * Roba del mazo del Eco hasta completar la mano
+     */
+    private refillHand() {
+        const missing = ECO_HAND_SIZE - this.hand.length;
+        if (missing > 0) {
+            this.hand = [...this.hand, ...deckManager.drawFromEcoDeck(missing)];
+            this.notify();
+        }
+    }
+
+    /**
+     * Saca de la mano la carta que el Eco juega: la anunciada en el primer ataque del turno, si sigue en la mano
+     */
+    private takeCardFromHand(bestCard: boolean = false): Card | undefined {
+        const intent = this.turnIntent;
+        const promised = intent && this.hand.some(c => c.id === intent.card.id) ? intent.card : undefined;
+        const card = promised ?? this.chooseCard(bestCard);
+
+        if (intent) {
+            this.turnIntent = null;
+            if (promised && intent.falsified) {
+                gameLogSystem.addMessage('La intención del Eco era una alucinación.', 'eco', 'hallucination');
             }
-    
-            if (this.currentPhase === 'devastador') {
-                this.performDevastatorActions();
+        }
+        if (card) {
+            this.hand = this.hand.filter(c => c.id !== card.id);
+        }
+        this.notify();
+        return card;
+    }
+
+    /**
+     * Elige carta puntuando el daño de cada una contra el estado del jugador.
+     * El peso es la puntuación por punto de daño, así que la agresividad de la fase
+     * (por CHOICE_SHARPNESS) decide el tipo de daño y no la cantidad: el daño esperado
+     * sigue siendo el de una carta al azar. enhanced_attack juega la mejor puntuada.
+     */
+    private chooseCard(bestCard: boolean): Card | undefined {
+        // La carta ya anunciada para el próximo turno queda reservada mientras haya otras
+        const reserved = this.currentIntent?.card.id;
+        const candidates = this.hand.length > 1 ? this.hand.filter(card => card.id !== reserved) : this.hand;
+        if (candidates.length <= 1) return candidates[0];
+
+        const scored = candidates.map(card => ({ card, score: this.scoreCard(card), raw: this.rawDamage(card) }));
+        if (bestCard) {
+            return scored.reduce((best, current) => current.score > best.score ? current : best).card;
+        }
+
+        const aggressiveness = Math.max(0, this.getPhaseModifiers().aggressiveness ?? 0.5);
+        // Las cartas sin daño pesan como una neutra
+        const weights = scored.map(({ score, raw }) => Math.pow(raw > 0 ? score / raw : 1, aggressiveness * CHOICE_SHARPNESS));
+
+        let roll = randomSystem.next() * weights.reduce((sum, weight) => sum + weight, 0);
+        let chosen = scored[scored.length - 1];
+        for (let i = 0; i < scored.length; i++) {
+            roll -= weights[i];
+            if (roll < 0) {
+                chosen = scored[i];
+                break;
             }
+        }
 
-        }, 1500); // 1.5 second delay for the player to see the card
+        console.log(`🎯 EcoAI: Elige ${chosen.card.rank} de ${chosen.card.suit} (${chosen.score.toFixed(1)}) entre ${scored.map(s => `${s.card.rank}${s.card.suit[0]}=${s.score.toFixed(1)}`).join(', ')}`);
+        return chosen.card;
     }
 
-    private performDoubleAttack() {
-        const secondCard = deckManager.drawFromEcoDeck(1)[0];
-        if (secondCard) {
-            // Reveal second card briefly
-            gameStateManager.ecoRevealedCard = secondCard;
-            setTimeout(() => {
-                this.executeAttack(secondCard);
-                
-                // Discard second card and trigger fire effect
-                deckManager.discardToEcoPile([secondCard]);
-                setTimeout(() => {
-                    vfxSystem.ecoDiscardCard({
-                        card: secondCard,
-                        position: { x: 640, y: 390 } // Zona de juego actualizada
-                    });
-                }, 500);
-                
-                // Clear revealed card after the second attack
-                gameStateManager.ecoRevealedCard = null;
-            }, 1500);
-        } else {
-            // If no second card available, just clear the first card
-            gameStateManager.ecoRevealedCard = null;
-        }
+    /**
+     * Cuánto le conviene al Eco jugar la carta: el daño a la COR pesa más cuanto
+     * menos cordura queda y el daño a nodos, cuanto más cerca está alguno de colapsar
+     */
+    private scoreCard(card: Card): number {
+        const preview = this.previewBaseAttack(card);
+
+        const pvPressure = 1 - gameStateManager.pv / Math.max(1, gameStateManager.maxPV);
+        const corPressure = 1 - gameStateManager.sanity / Math.max(1, gameStateManager.maxSanity);
+        const nodePressure = nodeSystem.allNodes
+            .filter(node => node.damage < node.maxDamage)
+            .reduce((max, node) => Math.max(max, node.damage / Math.max(1, node.maxDamage)), 0);
+
+        return preview.pv * (1 + pvPressure)
+            + preview.cor * (1 + 2 * corPressure)
+            + preview.node * NODE_DAMAGE_WEIGHT * (1 + 2 * nodePressure);
+    }
+
+    /**
+     * Daño de la carta sin la presión del estado (un punto de nodo vale NODE_DAMAGE_WEIGHT)
+     */
+    private rawDamage(card: Card): number {
+        const preview = this.previewBaseAttack(card);
+        return preview.pv + preview.cor + preview.node * NODE_DAMAGE_WEIGHT;
+    }
+
+    private previewBaseAttack(card: Card): EcoAttackPreview {
+        return scenarioRulesEngine.hasRules
+            ? scenarioRulesEngine.previewEcoAttack(card)
+            : this.estimateHardcodedAttack(card);
     }
 
     private updateDifficultyMultiplier() {
@@ -133,39 +418,8 @@ export class EcoAI {
             this.difficultyMultiplier = 1.0;
         }
     }
-    
-    private getPhaseSpecialChance(phase: string, baseChance: number): number {
-        if (this.currentPhase !== phase) return 0;
-        return Math.min(1.0, baseChance * this.difficultyMultiplier);
-    }
-    
-    // private applyDifficultyToDoubleAttack(): boolean {
-    //     // In higher difficulties, eco is more likely to perform special actions
-    //     const enhancedChance = this.difficultyMultiplier >= 1.5;
-    //     return enhancedChance && Math.random() < 0.3;
-    // }
-
-    private performDevastatorActions() {
-        // Sonido devastador para daño a nodos
-        audioManager.playEffect('event-danger', 0.9);
-        
-        const allNodes = nodeSystem.allNodes.filter(n => n.damage < n.maxDamage);
-        if (allNodes.length > 0) {
-            const randomNode = allNodes[Math.floor(Math.random() * allNodes.length)];
-            const nodeDamage = Math.ceil(2 * this.difficultyMultiplier);
-            nodeSystem.dealDamage(randomNode.id, nodeDamage);
-            gameLogSystem.addMessage(`The Eco lashes out, damaging node ${randomNode.name} for ${nodeDamage} damage.`, 'eco', 'node_damage');
-        }
-
-        // Scale hallucination count with difficulty
-        const hallucinationCount = Math.ceil(2 * Math.min(this.difficultyMultiplier, 2.0));
-        for (let i = 0; i < hallucinationCount; i++) {
-            hallucinationSystem.addHallucinationToDeck();
-        }
-        gameLogSystem.addMessage(`${hallucinationCount} hallucinations corrupt your deck.`, 'eco', 'hallucination');
-    }
 
-    private executeAttack(card: Card) {
+    private executeAttack(card: Card, power: number) {
         if (!card) {
             gameLogSystem.addMessage("Eco attempted to attack but had no card.", 'eco', 'info');
             return;
@@ -174,14 +428,10 @@ export class EcoAI {
         // Intentar usar las reglas dinámicas para ataques del Eco
         if (scenarioRulesEngine.hasRules) {
             console.log(`🔴 EcoAI: Usando reglas dinámicas para ataque con ${card.rank} ${card.suit}`);
-            scenarioRulesEngine.applyEcoAttackEffect(card);
-            
-            // Aplicar modificadores de fase si es devastador
-            if (this.currentPhase === 'devastador') {
-                const amplification = 1.5 * this.difficultyMultiplier;
-                gameLogSystem.addMessage(`Fase Devastador: ¡Daño amplificado! (x${amplification.toFixed(1)})`, 'eco', 'special');
-                // Los modificadores se pueden aplicar en las reglas dinámicas
+            if (power !== 1) {
+                gameLogSystem.addMessage(`Fase ${this.currentPhase}: daño del ataque x${power.toFixed(1)}.`, 'eco', 'special');
             }
+            scenarioRulesEngine.applyEcoAttackEffect(card, power);
             return;
         }
 
@@ -191,16 +441,17 @@ export class EcoAI {
         let damage = card.value;
         const damageType: 'PV' | 'COR' = ['spades', 'clubs'].includes(card.suit.toLowerCase()) ? 'PV' : 'COR';
 
-        // Apply difficulty multiplier to base damage
-        damage = Math.ceil(damage * this.difficultyMultiplier);
+        // Apply difficulty multiplier and phase attack power to base damage
+        damage = Math.ceil(damage * this.difficultyMultiplier * power);
 
-        if (this.currentPhase === 'devastador') {
-            damage = Math.ceil(damage * 1.5);
-            gameLogSystem.addMessage(`Devastator phase: Damage amplified! (x${(1.5 * this.difficultyMultiplier).toFixed(1)})`, 'eco', 'special');
+        if (power !== 1) {
+            gameLogSystem.addMessage(`Fase ${this.currentPhase}: daño del ataque x${power.toFixed(1)}.`, 'eco', 'special');
         } else if (this.difficultyMultiplier > 1.0) {
             gameLogSystem.addMessage(`Difficulty scaling: Damage increased! (x${this.difficultyMultiplier})`, 'eco', 'special');
         }
 
+        damage = statusEffectSystem.modifyDamage(damage, 'ECO', 'PLAYER').amount;
+
         if (damageType === 'PV') {
             // Efecto de sonido para daño físico - sonidos de ataque pesado
             audioManager.playEffect('attack-shot', 0.8);
@@ -0,0 +1,118 @@
+// src/engine/EcoDefenseSystem.ts
+
+/**
+ * Defensas del Eco: armadura, escudo y reducción de daño por fase (eco.json).
+ * La armadura se resta a cada golpe, la reducción porcentual se aplica después
+ * y el escudo es una reserva que absorbe daño antes que la vida y se recarga al
+ * entrar en cada fase. Las propiedades PIERCING y TRUE_DAMAGE de los efectos
+ * atraviesan parte o todas estas defensas. El daño por turno de los estados
+ * alterados no pasa por aquí.
+ */
+
+import { gameEventBus } from './GameEventBus';
+import { gameLogSystem } from './GameLogSystem';
+import type { EcoDefense, EffectProperty } from './types';
+
+export interface DefenseResult {
+    damage: number;   // Daño que llega a la vida del Eco
+    absorbed: number; // Daño absorbido por el escudo
+    mitigated: number; // Daño detenido por armadura, reducción y escudo
+}
+
+class EcoDefenseSystem {
+    private shield = 0;
+    private defenseProvider: () => EcoDefense | undefined = () => undefined;
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        gameEventBus.on('EcoPhaseChanged', () => this.rechargeShield());
+    }
+
+    /**
+     * Fuente de las defensas de la fase actual.
+     * La registra EcoStateSystem (importarlo aquí crearía un ciclo con GameStateManager).
+     */
+    setDefenseProvider(provider: () => EcoDefense | undefined) {
+        this.defenseProvider = provider;
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    get currentShield() { return this.shield; }
+    get armor() { return this.defenseProvider()?.armor ?? 0; }
+    get damageReduction() { return this.defenseProvider()?.damageReduction ?? 0; }
+    get maxShield() { return this.defenseProvider()?.shield ?? 0; }
+
+    /**
+     * Aplica las defensas a un golpe contra el Eco y consume el escudo
+     */
+    absorb(amount: number, properties: EffectProperty[] = []): DefenseResult {
+        if (amount <= 0 || properties.includes('TRUE_DAMAGE')) {
+            return { damage: Math.max(0, amount), absorbed: 0, mitigated: 0 };
+        }
+
+        let damage = amount;
+        if (!properties.includes('PIERCING')) {
+            damage = Math.max(0, damage - this.armor);
+            damage = Math.round(damage * (100 - this.damageReduction) / 100);
+        }
+
+        const absorbed = Math.min(this.shield, damage);
+        if (absorbed > 0) {
+            this.shield -= absorbed;
+            damage -= absorbed;
+            gameLogSystem.addMessage(
+                this.shield > 0
+                    ? `🛡️ El escudo del Eco absorbe ${absorbed} de daño (quedan ${this.shield}).`
+                    : `🛡️ El escudo del Eco absorbe ${absorbed} de daño y se rompe.`,
+                'eco',
+                'defend'
+            );
+            this.notify();
+        }
+
+        const mitigated = amount - damage;
+        if (mitigated > absorbed) {
+            console.log(`🛡️ EcoDefenseSystem: Armadura y reducción detienen ${mitigated - absorbed} de ${amount}`);
+        }
+        return { damage, absorbed, mitigated };
+    }
+
+    /**
+     * Escudo completo de la fase actual (nueva partida o cambio de fase)
+     */
+    rechargeShield() {
+        const max = this.maxShield;
+        if (max === this.shield) return;
+        this.shield = max;
+        if (max > 0) {
+            gameLogSystem.addMessage(`🛡️ El Eco se cubre con un escudo de ${max} puntos.`, 'eco', 'defend');
+        }
+        this.notify();
+    }
+
+    reset() {
+        this.shield = this.maxShield;
+        this.notify();
+    }
+
+    serialize(): { shield: number } {
+        return { shield: this.shield };
+    }
+
+    restore(snapshot: { shield: number }) {
+        this.shield = snapshot.shield;
+        this.notify();
+    }
+}
+
+export const ecoDefenseSystem = new EcoDefenseSystem();
@@ -11,9 +11,16 @@
  */
 
 import { gameStateManager } from './GameStateManager';
+import { gameEventBus } from './GameEventBus';
+import { scenarioRulesEngine } from './ScenarioRulesEngine';
+import { ecoDefenseSystem } from './EcoDefenseSystem';
+import type { EcoDefense } from './types';
 
 export type EcoState = string; // Dynamic states from JSON
 
+// Habilidad de una fase (ver EcoAI): su id, o un objeto con probabilidad y cantidad base
+export type EcoPhaseEffect = string | { ability: string; chance?: number; value?: number };
+
 export interface EcoStateConfig {
   id: string;
   name: string;
@@ -21,13 +28,18 @@ export interface EcoStateConfig {
   description: string;
   imagePath: string;
   effectIntensity: 'low' | 'medium' | 'high';
-  effects: string[];
+  effects: EcoPhaseEffect[];
   behaviorModifiers: {
     aggressiveness: number;
     eventFrequency: number;
     attackPower: number;
     corruptionRate: number;
   };
+  defense?: EcoDefense; // Armadura, escudo y reducción de daño de la fase
+  intent?: {            // Anuncio del próximo ataque (EcoAI.commitIntent)
+    hideChance?: number;  // Probabilidad de ocultarlo
+    falseChance?: number; // Probabilidad de enseñar el de otra carta
+  };
   flavorText: string;
 }
 
@@ -61,6 +73,10 @@ class EcoStateSystem {
     gameStateManager.subscribe(() => {
       this.updateEcoState();
     });
+
+    // Las condiciones de reglas con ecoPhase consultan la fase actual
+    scenarioRulesEngine.setEcoPhaseProvider(() => this.currentState);
+    ecoDefenseSystem.setDefenseProvider(() => this.getCurrentConfig()?.defense);
     
     // Load default configuration
     this.loadConfiguration('default').catch(error => {
@@ -229,6 +245,7 @@ class EcoStateSystem {
         
         // Notificar a listeners
         this.notifyListeners(newState, config);
+        gameEventBus.publish('EcoPhaseChanged', { from: oldState, to: newState });
       }
     }
   }
@@ -0,0 +1,185 @@
+// src/engine/EnvironmentSystem.ts
+
+/**
+ * Eventos ambientales persistentes (eventos con persistent en events.json).
+ * Tras revelarse siguen en juego con su carta fuera del mazo: al comenzar cada
+ * turno descuentan su duración, comprueban su condición de fin y aplican sus
+ * efectos por turno, y mientras siguen activos modifican el tamaño de la mano y
+ * el daño a los nodos. El jugador puede despejarlos antes pagando su coste.
+ */
+
+import { gameStateManager } from './GameStateManager';
+import { gameEventBus } from './GameEventBus';
+import { gameLogSystem } from './GameLogSystem';
+import { deckManager } from './DeckManager';
+import { nodeSystem } from './NodeSystem';
+import { scenarioRulesEngine } from './ScenarioRulesEngine';
+import { scenarioEventsEngine } from './ScenarioEventsEngine';
+import type { Card, DynamicEvent, PersistentEventConfig } from './types';
+
+export interface EnvironmentEvent {
+    event: DynamicEvent;
+    config: PersistentEventConfig;
+    card: Card;               // Carta que lo reveló, fuera del mazo mientras dura
+    remaining: number | null; // Turnos que le quedan, contando el actual (null = sin límite)
+}
+
+export interface EnvironmentEventSnapshot {
+    eventId: string;
+    card: Card;
+    remaining: number | null;
+}
+
+export type EnvironmentSnapshot = EnvironmentEventSnapshot[];
+
+class EnvironmentSystem {
+    private active: EnvironmentEvent[] = [];
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        gameEventBus.on('TurnStarted', () => this.tick());
+        nodeSystem.setDamageModifier(amount => this.modifyNodeDamage(amount));
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    /**
+     * Eventos en juego, en orden de llegada
+     */
+    get activeEvents(): readonly EnvironmentEvent[] {
+        return this.active;
+    }
+
+    getActiveEvent(eventId: string): EnvironmentEvent | undefined {
+        return this.active.find(active => active.event.id === eventId);
+    }
+
+    /**
+     * La carta sigue fuera del mazo mientras su evento esté en juego
+     */
+    holdsCard(cardId: string): boolean {
+        return this.active.some(active => active.card.id === cardId);
+    }
+
+    /**
+     * Deja en juego un evento recién revelado (sus efectos de inicio ya se aplicaron)
+     */
+    start(event: DynamicEvent, card: Card) {
+        const config = event.persistent;
+        if (!config || this.getActiveEvent(event.id)) return;
+
+        this.active.push({ event, config, card, remaining: config.duration ?? null });
+
+        const durationText = config.duration !== undefined ? ` durante ${config.duration} turno${config.duration === 1 ? '' : 's'}` : '';
+        gameLogSystem.addMessage(`🌫️ ${event.event} sigue en juego${durationText}.`, 'event', 'special');
+        console.log(`🌫️ EnvironmentSystem: ${event.id} en juego (duración ${config.duration ?? 'sin límite'})`);
+        this.notify();
+    }
+
+    /**
+     * Comienzo de turno: termina los eventos agotados o cuya condición se cumple
+     * y aplica los efectos por turno de los demás
+     */
+    private tick() {
+        if (this.active.length === 0 || gameStateManager.isGameOver) return;
+
+        [...this.active].forEach(active => {
+            if (gameStateManager.isGameOver) return;
+
+            if (active.remaining !== null) {
+                active.remaining--;
+                if (active.remaining <= 0) {
+                    this.end(active);
+                    return;
+                }
+            }
+            if (active.config.endCondition && scenarioRulesEngine.evaluateCondition(active.config.endCondition, active.card)) {
+                this.end(active);
+                return;
+            }
+            scenarioRulesEngine.applyRuleEffects(active.config.perTurn ?? [], active.card, `evento ${active.event.id}`);
+        });
+        this.notify();
+    }
+
+    /**
+     * Termina un evento por duración o condición: aplica sus efectos de fin y su carta vuelve al descarte
+     */
+    private end(active: EnvironmentEvent) {
+        this.remove(active);
+        gameLogSystem.addMessage(`🌫️ ${active.event.event} se disipa.`, 'event', 'info');
+        scenarioRulesEngine.applyRuleEffects(active.config.onEnd ?? [], active.card, `evento ${active.event.id}`);
+    }
+
+    private remove(active: EnvironmentEvent) {
+        this.active = this.active.filter(current => current !== active);
+        deckManager.discard([active.card]);
+        console.log(`🌫️ EnvironmentSystem: ${active.event.id} termina`);
+        this.notify();
+    }
+
+    /**
+     * Despeja un evento pagando el coste de su acción (la valida LegalActionSystem)
+     */
+    clear(eventId: string) {
+        const active = this.getActiveEvent(eventId);
+        const clear = active?.config.clear;
+        if (!active || !clear) return;
+
+        scenarioRulesEngine.payCost(clear.cost, () => {
+            gameLogSystem.addMessage(`${clear.label}: ${active.event.event} termina.`, 'player', 'special');
+            scenarioRulesEngine.applyRuleEffects(clear.effects ?? [], active.card, `evento ${active.event.id}`);
+            this.remove(active);
+        });
+    }
+
+    /**
+     * Cartas de más o de menos al rellenar la mano
+     */
+    getHandSizeModifier(): number {
+        return this.active.reduce((sum, active) => sum + (active.config.modifiers?.handSize ?? 0), 0);
+    }
+
+    private modifyNodeDamage(amount: number): number {
+        const percent = this.active.reduce((sum, active) => sum + (active.config.modifiers?.nodeDamagePercent ?? 0), 0);
+        const modified = Math.max(0, Math.round(amount * (100 + percent) / 100));
+
+        if (modified !== amount) {
+            gameLogSystem.addMessage(`Eventos en juego: el daño al nodo pasa de ${amount} a ${modified}.`, 'system', 'info');
+        }
+        return modified;
+    }
+
+    /**
+     * Nueva partida: no queda ningún evento en juego
+     */
+    reset() {
+        this.active = [];
+        this.notify();
+    }
+
+    serialize(): EnvironmentSnapshot {
+        return this.active.map(active => ({ eventId: active.event.id, card: active.card, remaining: active.remaining }));
+    }
+
+    restore(snapshot: EnvironmentSnapshot) {
+        this.active = snapshot.flatMap(saved => {
+            const event = scenarioEventsEngine.getEventByCardId(saved.eventId);
+            return event?.persistent
+                ? [{ event, config: event.persistent, card: saved.card, remaining: saved.remaining }]
+                : [];
+        });
+        this.notify();
+    }
+}
+
+export const environmentSystem = new EnvironmentSystem();
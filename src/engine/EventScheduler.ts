@@ -0,0 +1,63 @@
+// src/engine/EventScheduler.ts
+
+/**
+ * Planificador de eventos: decide cuántas cartas de evento se revelan cada turno.
+ * La frecuencia combina la de la fase actual del Eco (eco.json) con la del
+ * capítulo. Pasado el periodo de gracia, la parte entera de la frecuencia son
+ * eventos seguros y la parte decimal es la probabilidad de uno más.
+ */
+
+import { gameStateManager } from './GameStateManager';
+import { ecoStateSystem } from './EcoStateSystem';
+import { chapterManager } from './ChapterManager';
+import { randomSystem } from './RandomSystem';
+
+// Sin capítulo, los eventos empiezan en el turno 4 como siempre
+const DEFAULT_GRACE_TURNS = 3;
+const MAX_EVENTS_PER_TURN = 3;
+
+export interface EventPressure {
+    rate: number;        // Eventos esperados por turno
+    minEvents: number;   // Eventos seguros
+    maxEvents: number;   // Eventos posibles
+    graceTurns: number;  // Turnos iniciales sin eventos
+    inGrace: boolean;    // El turno consultado aún está en el periodo de gracia
+}
+
+class EventScheduler {
+    /**
+     * Presión de eventos de un turno (por defecto, el actual) con la fase actual del Eco
+     */
+    getPressure(turn: number = gameStateManager.turn): EventPressure {
+        const chapter = chapterManager.currentChapterConfig;
+        const graceTurns = chapter?.difficultyModifiers.eventGraceTurns ?? DEFAULT_GRACE_TURNS;
+        const chapterFrequency = chapter?.difficultyModifiers.eventFrequency ?? 1;
+        const phaseFrequency = ecoStateSystem.getCurrentBehaviorModifiers().eventFrequency ?? 1;
+
+        const rate = Math.min(MAX_EVENTS_PER_TURN, Math.max(0, phaseFrequency * chapterFrequency));
+        const inGrace = turn <= graceTurns;
+
+        return {
+            rate,
+            minEvents: inGrace ? 0 : Math.floor(rate),
+            maxEvents: inGrace ? 0 : Math.ceil(rate),
+            graceTurns,
+            inGrace,
+        };
+    }
+
+    /**
+     * Eventos que se revelan este turno (tira el RNG de la partida)
+     */
+    rollEventCount(): number {
+        const pressure = this.getPressure();
+        if (pressure.inGrace) return 0;
+
+        const extra = randomSystem.chance(pressure.rate - pressure.minEvents) ? 1 : 0;
+        const count = pressure.minEvents + extra;
+        console.log(`📅 EventScheduler: ${count} evento(s) este turno (frecuencia ${pressure.rate.toFixed(2)})`);
+        return count;
+    }
+}
+
+export const eventScheduler = new EventScheduler();
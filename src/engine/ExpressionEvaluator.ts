@@ -0,0 +1,290 @@
+// src/engine/ExpressionEvaluator.ts
+
+/**
+ * Lenguaje de expresiones para los valores de reglas y eventos.
+ * Analiza las fórmulas con un parser propio (sin eval ni new Function) y solo
+ * admite números, variables del estado de juego, + - * / %, paréntesis y un
+ * conjunto cerrado de funciones. Ejemplo: "CARD_VALUE + NODES_COLLAPSED * 2".
+ */
+
+export const EXPRESSION_VARIABLES = [
+    'CARD_VALUE',
+    'PLAYER_PV',
+    'PLAYER_COR',
+    'ECO_HP',
+    'ECO_HP_PERCENT',
+    'TURN',
+    'HAND_SIZE',
+    'DECK_SIZE',
+    'NODES_INTACT',
+    'NODES_COLLAPSED',
+    'HALLUCINATION_LEVEL',
+] as const;
+
+export type ExpressionVariable = typeof EXPRESSION_VARIABLES[number];
+export type ExpressionVariables = Record<ExpressionVariable, number>;
+
+// Funciones disponibles con su número de argumentos [mínimo, máximo]
+const EXPRESSION_FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+    min: { arity: [1, Infinity], apply: (...args) => Math.min(...args) },
+    max: { arity: [1, Infinity], apply: (...args) => Math.max(...args) },
+    floor: { arity: [1, 1], apply: value => Math.floor(value) },
+    ceil: { arity: [1, 1], apply: value => Math.ceil(value) },
+    round: { arity: [1, 1], apply: value => Math.round(value) },
+    clamp: { arity: [3, 3], apply: (value, min, max) => Math.min(max, Math.max(min, value)) },
+};
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%';
+
+type ExpressionNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'variable'; name: ExpressionVariable }
+    | { kind: 'negate'; operand: ExpressionNode }
+    | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+interface Token {
+    type: 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'end';
+    text: string;
+    position: number;
+}
+
+export class ExpressionError extends Error {
+    readonly expression: string;
+    readonly position: number | null;
+
+    constructor(message: string, expression: string, position: number | null = null) {
+        super(position !== null ? `${message} (posición ${position + 1} en "${expression}")` : `${message} en "${expression}"`);
+        this.name = 'ExpressionError';
+        this.expression = expression;
+        this.position = position;
+    }
+}
+
+class ExpressionParser {
+    private tokens: Token[];
+    private index = 0;
+    private readonly expression: string;
+
+    constructor(expression: string) {
+        this.expression = expression;
+        this.tokens = this.tokenize(expression);
+    }
+
+    parse(): ExpressionNode {
+        const node = this.parseAdditive();
+        const token = this.peek();
+        if (token.type !== 'end') {
+            throw this.error(`Símbolo inesperado '${token.text}'`, token);
+        }
+        return node;
+    }
+
+    private tokenize(expression: string): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+        while (i < expression.length) {
+            const char = expression[i];
+            if (/\s/.test(char)) {
+                i++;
+            } else if (/[0-9.]/.test(char)) {
+                const match = /^(\d+\.?\d*|\.\d+)/.exec(expression.slice(i));
+                if (!match) {
+                    throw new ExpressionError('Número mal formado', expression, i);
+                }
+                tokens.push({ type: 'number', text: match[0], position: i });
+                i += match[0].length;
+            } else if (/[A-Za-z_]/.test(char)) {
+                const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+                tokens.push({ type: 'identifier', text: match[0], position: i });
+                i += match[0].length;
+            } else if ('+-*/%'.includes(char)) {
+                tokens.push({ type: 'operator', text: char, position: i++ });
+            } else if (char === '(') {
+                tokens.push({ type: 'lparen', text: char, position: i++ });
+            } else if (char === ')') {
+                tokens.push({ type: 'rparen', text: char, position: i++ });
+            } else if (char === ',') {
+                tokens.push({ type: 'comma', text: char, position: i++ });
+            } else {
+                throw new ExpressionError(`Carácter no permitido '${char}'`, expression, i);
+            }
+        }
+        tokens.push({ type: 'end', text: 'fin de la expresión', position: expression.length });
+        return tokens;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private expect(type: Token['type'], description: string): Token {
+        const token = this.next();
+        if (token.type !== type) {
+            throw this.error(`Se esperaba ${description} y se encontró '${token.text}'`, token);
+        }
+        return token;
+    }
+
+    private parseAdditive(): ExpressionNode {
+        let node = this.parseMultiplicative();
+        while (this.peek().type === 'operator' && '+-'.includes(this.peek().text)) {
+            const operator = this.next().text as BinaryOperator;
+            node = { kind: 'binary', operator, left: node, right: this.parseMultiplicative() };
+        }
+        return node;
+    }
+
+    private parseMultiplicative(): ExpressionNode {
+        let node = this.parseUnary();
+        while (this.peek().type === 'operator' && '*/%'.includes(this.peek().text)) {
+            const operator = this.next().text as BinaryOperator;
+            node = { kind: 'binary', operator, left: node, right: this.parseUnary() };
+        }
+        return node;
+    }
+
+    private parseUnary(): ExpressionNode {
+        const token = this.peek();
+        if (token.type === 'operator' && (token.text === '-' || token.text === '+')) {
+            this.next();
+            const operand = this.parseUnary();
+            return token.text === '-' ? { kind: 'negate', operand } : operand;
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'number':
+                return { kind: 'number', value: Number(token.text) };
+
+            case 'lparen': {
+                const node = this.parseAdditive();
+                this.expect('rparen', "')'");
+                return node;
+            }
+
+            case 'identifier':
+                return this.peek().type === 'lparen' ? this.parseCall(token) : this.parseVariable(token);
+
+            default:
+                throw this.error(`Se esperaba un número, variable o función y se encontró '${token.text}'`, token);
+        }
+    }
+
+    private parseVariable(token: Token): ExpressionNode {
+        if (!(EXPRESSION_VARIABLES as readonly string[]).includes(token.text)) {
+            throw this.error(`Variable desconocida '${token.text}'. Disponibles: ${EXPRESSION_VARIABLES.join(', ')}`, token);
+        }
+        return { kind: 'variable', name: token.text as ExpressionVariable };
+    }
+
+    private parseCall(token: Token): ExpressionNode {
+        // hasOwnProperty evita aceptar propiedades heredadas como 'constructor'
+        const definition = Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, token.text)
+            ? EXPRESSION_FUNCTIONS[token.text]
+            : undefined;
+        if (!definition) {
+            throw this.error(`Función desconocida '${token.text}'. Disponibles: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`, token);
+        }
+
+        this.expect('lparen', "'('");
+        const args: ExpressionNode[] = [];
+        if (this.peek().type !== 'rparen') {
+            args.push(this.parseAdditive());
+            while (this.peek().type === 'comma') {
+                this.next();
+                args.push(this.parseAdditive());
+            }
+        }
+        this.expect('rparen', "')'");
+
+        const [minArgs, maxArgs] = definition.arity;
+        if (args.length < minArgs || args.length > maxArgs) {
+            const expected = minArgs === maxArgs ? `${minArgs}` : `al menos ${minArgs}`;
+            throw this.error(`${token.text}() necesita ${expected} argumento(s) y recibió ${args.length}`, token);
+        }
+        return { kind: 'call', name: token.text, args };
+    }
+
+    private error(message: string, token: Token): ExpressionError {
+        return new ExpressionError(message, this.expression, token.position);
+    }
+}
+
+class ExpressionEvaluator {
+    private cache = new Map<string, ExpressionNode>();
+
+    /**
+     * Evalúa una expresión con los valores actuales de las variables
+     * @throws ExpressionError si la expresión no es válida o el resultado no es finito
+     */
+    evaluate(expression: string, variables: ExpressionVariables): number {
+        const result = this.evaluateNode(this.parse(expression), variables, expression);
+        if (!Number.isFinite(result)) {
+            throw new ExpressionError('El resultado no es un número finito', expression);
+        }
+        return result;
+    }
+
+    /**
+     * Comprueba la sintaxis, variables y funciones sin evaluar
+     * @returns el mensaje de error, o null si la expresión es válida
+     */
+    validate(expression: string): string | null {
+        try {
+            this.parse(expression);
+            return null;
+        } catch (error) {
+            return error instanceof ExpressionError ? error.message : String(error);
+        }
+    }
+
+    private parse(expression: string): ExpressionNode {
+        let node = this.cache.get(expression);
+        if (!node) {
+            node = new ExpressionParser(expression).parse();
+            this.cache.set(expression, node);
+        }
+        return node;
+    }
+
+    private evaluateNode(node: ExpressionNode, variables: ExpressionVariables, expression: string): number {
+        switch (node.kind) {
+            case 'number':
+                return node.value;
+            case 'variable':
+                return variables[node.name];
+            case 'negate':
+                return -this.evaluateNode(node.operand, variables, expression);
+            case 'call':
+                return EXPRESSION_FUNCTIONS[node.name].apply(
+                    ...node.args.map(arg => this.evaluateNode(arg, variables, expression))
+                );
+            case 'binary': {
+                const left = this.evaluateNode(node.left, variables, expression);
+                const right = this.evaluateNode(node.right, variables, expression);
+                switch (node.operator) {
+                    case '+': return left + right;
+                    case '-': return left - right;
+                    case '*': return left * right;
+                    case '/':
+                    case '%':
+                        if (right === 0) {
+                            throw new ExpressionError('División por cero', expression);
+                        }
+                        return node.operator === '/' ? left / right : left % right;
+                }
+            }
+        }
+    }
+}
+
+export const expressionEvaluator = new ExpressionEvaluator();
@@ -0,0 +1,222 @@
+// src/engine/GameClock.ts
+
+/**
+ * Reloj del motor de juego.
+ * Todas las esperas de la lógica (avance de fases, turno del Eco, números
+ * diferidos) se programan aquí en lugar de usar setTimeout directamente.
+ *
+ * Modos:
+ * - realtime: las esperas corren con el reloj real, multiplicadas por `speed` (2x/4x para avance rápido)
+ * - instant: las tareas se ejecutan en cuanto termina el bloque actual, en orden de tiempo de juego
+ * - manual: las tareas solo avanzan con step() o runPending() (depuración y pruebas)
+ *
+ * Mientras el reloj está pausado ninguna tarea vence.
+ */
+
+export type ClockMode = 'realtime' | 'instant' | 'manual';
+
+interface ScheduledTask {
+    id: number;
+    dueAt: number;
+    callback: () => void;
+}
+
+class GameClock {
+    private _mode: ClockMode = 'realtime';
+    private _speed = 1;
+    private _paused = false;
+    private nextId = 1;
+    private time = 0; // Tiempo de juego (ms) en el último reajuste
+    private wallAnchor = Date.now(); // Hora real del último reajuste
+    private queue: ScheduledTask[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private drainPending = false;
+    private listeners: (() => void)[] = [];
+
+    get mode() { return this._mode; }
+    get speed() { return this._speed; }
+    get isPaused() { return this._paused; }
+    get pendingCount() { return this.queue.length; }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    /**
+     * Tiempo de juego transcurrido en milisegundos
+     */
+    now(): number {
+        if (this._mode === 'realtime' && !this._paused) {
+            return this.time + (Date.now() - this.wallAnchor) * this._speed;
+        }
+        return this.time;
+    }
+
+    /**
+     * Cambia el modo del reloj conservando las tareas pendientes
+     */
+    setMode(mode: ClockMode) {
+        if (mode === this._mode) return;
+        this.rebase();
+        this._mode = mode;
+        console.log(`⏱️ GameClock: Modo ${mode}`);
+        this.rearm();
+        this.notify();
+    }
+
+    /**
+     * Multiplicador de velocidad del modo realtime (1 = normal, 2x/4x = avance rápido)
+     */
+    setSpeed(speed: number) {
+        this.rebase();
+        this._speed = Math.max(0.1, speed);
+        console.log(`⏱️ GameClock: Velocidad x${this._speed}`);
+        this.rearm();
+        this.notify();
+    }
+
+    pause() {
+        if (this._paused) return;
+        this.rebase();
+        this._paused = true;
+        this.rearm();
+        this.notify();
+    }
+
+    resume() {
+        if (!this._paused) return;
+        this.rebase();
+        this._paused = false;
+        this.rearm();
+        this.notify();
+    }
+
+    /**
+     * Programa una tarea tras delayMs milisegundos de juego
+     * @returns id de la tarea, para poder cancelarla
+     */
+    schedule(callback: () => void, delayMs: number): number {
+        const id = this.nextId++;
+        this.queue.push({ id, dueAt: this.now() + Math.max(0, delayMs), callback });
+        this.rearm();
+        return id;
+    }
+
+    cancel(id: number) {
+        this.queue = this.queue.filter(task => task.id !== id);
+        this.rearm();
+    }
+
+    /**
+     * Ejecuta la siguiente tarea pendiente adelantando el tiempo de juego hasta ella
+     * @returns false si no había tareas
+     */
+    step(): boolean {
+        const task = this.takeNext();
+        if (!task) return false;
+        this.runTask(task);
+        this.rearm();
+        return true;
+    }
+
+    /**
+     * Ejecuta las tareas pendientes en orden de tiempo, incluidas las que se
+     * programen mientras tanto (modo instantáneo, simulaciones y pruebas).
+     * @returns número de tareas ejecutadas
+     */
+    runPending(maxTasks: number = 10000): number {
+        let executed = 0;
+        let task = executed < maxTasks ? this.takeNext() : undefined;
+        while (task) {
+            this.runTask(task);
+            executed++;
+            task = executed < maxTasks ? this.takeNext() : undefined;
+        }
+        if (this.queue.length > 0) {
+            console.warn(`⚠️ GameClock: Límite de ${maxTasks} tareas alcanzado con ${this.queue.length} pendientes`);
+        }
+        this.rearm();
+        return executed;
+    }
+
+    /**
+     * Descarta todas las tareas pendientes
+     */
+    clear() {
+        this.queue = [];
+        this.rearm();
+    }
+
+    private takeNext(): ScheduledTask | undefined {
+        if (this.queue.length === 0) return undefined;
+        // Ordenar por tiempo y, a igualdad, por orden de programación
+        this.queue.sort((a, b) => a.dueAt - b.dueAt || a.id - b.id);
+        return this.queue.shift();
+    }
+
+    private runTask(task: ScheduledTask) {
+        if (this._mode !== 'realtime' || this._paused) {
+            this.time = Math.max(this.time, task.dueAt);
+        }
+        task.callback();
+    }
+
+    private rebase() {
+        this.time = this.now();
+        this.wallAnchor = Date.now();
+    }
+
+    /**
+     * Reprograma el temporizador real (realtime) o el vaciado de la cola (instant)
+     */
+    private rearm() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this._paused || this.queue.length === 0) return;
+
+        if (this._mode === 'instant') {
+            if (!this.drainPending) {
+                this.drainPending = true;
+                queueMicrotask(() => {
+                    this.drainPending = false;
+                    if (this._mode === 'instant' && !this._paused) this.runPending();
+                });
+            }
+            return;
+        }
+
+        if (this._mode === 'realtime') {
+            const nextDue = Math.min(...this.queue.map(task => task.dueAt));
+            const wait = Math.max(0, (nextDue - this.now()) / this._speed);
+            this.timer = setTimeout(() => this.fireDue(), wait);
+        }
+    }
+
+    private fireDue() {
+        this.timer = null;
+        this.rebase();
+        // Solo las tareas ya vencidas; las que se programen ahora esperan a su hora
+        let task = this.queue.length > 0 ? this.takeNext() : undefined;
+        while (task) {
+            if (task.dueAt > this.time) {
+                this.queue.push(task);
+                break;
+            }
+            this.runTask(task);
+            if (this._mode !== 'realtime' || this._paused) break;
+            task = this.takeNext();
+        }
+        this.rearm();
+    }
+}
+
+export const gameClock = new GameClock();
@@ -0,0 +1,145 @@
+// src/engine/GameEventBus.ts
+
+/**
+ * Bus de eventos de dominio del juego.
+ * La lógica de reglas publica aquí lo que ocurre (cartas jugadas, daño, nodos,
+ * fases del Eco...) y los sistemas de puntuación, audio, VFX, log y estadísticas
+ * reaccionan suscribiéndose, sin que el código de combate los conozca.
+ */
+
+import type { Card, HallucinationCard, RuleEffectType, StatType } from './types';
+
+export type Combatant = 'PLAYER' | 'ECO';
+export type EffectSource = Combatant | 'EVENT';
+
+export type GameEventType =
+    | 'CardPlayed'
+    | 'ComboPlayed'
+    | 'CardsDrawn'
+    | 'DamageDealt'
+    | 'NodeDamaged'
+    | 'NodeRepaired'
+    | 'NodeCollapsed'
+    | 'EcoPhaseChanged'
+    | 'HallucinationDrawn'
+    | 'TurnStarted'
+    | 'MaintenanceStarted'
+    | 'TurnEnded'
+    | 'DeckReshuffled'
+    | 'DeckRevealed'
+    | 'EffectApplied';
+
+export interface GameEventData {
+    CardPlayed: {
+        card: Card;
+        source: Combatant;
+        actionPointsBefore: number; // PA del jugador antes de jugarla (0 para el Eco)
+    };
+    ComboPlayed: {
+        cards: Card[];
+        comboId: string;
+        name: string;
+        actionPointsBefore: number;
+    };
+    CardsDrawn: {
+        source: Combatant; // Mazo del que se roba
+        count: number;
+    };
+    DamageDealt: {
+        source: EffectSource;
+        target: Combatant;
+        stat: StatType;
+        amount: number;
+        critical: boolean;
+        remaining: number; // Valor de la estadística tras el daño
+    };
+    NodeDamaged: {
+        nodeId: string;
+        amount: number;
+        damage: number;
+        maxDamage: number;
+    };
+    NodeRepaired: {
+        nodeId: string;
+        amount: number;
+        damage: number;
+    };
+    NodeCollapsed: {
+        nodeId: string;
+    };
+    EcoPhaseChanged: {
+        from: string;
+        to: string;
+    };
+    HallucinationDrawn: {
+        card: HallucinationCard;
+    };
+    TurnStarted: {
+        turn: number;
+    };
+    MaintenanceStarted: {
+        turn: number;
+    };
+    TurnEnded: {
+        turn: number; // Turno que termina
+    };
+    DeckReshuffled: {
+        source: Combatant; // Mazo al que vuelve su descarte
+        count: number;
+    };
+    DeckRevealed: {
+        source: Combatant; // Mazo cuyas cartas superiores se han visto
+        count: number;
+    };
+    EffectApplied: {
+        effect: RuleEffectType; // Efectos de regla sin evento propio (PA, máximos, mazos, alucinaciones...)
+        source: EffectSource;
+        amount: number;         // Cantidad resuelta (cartas movidas, PA ganados...)
+    };
+}
+
+export interface GameEvent<T extends GameEventType> {
+    type: T;
+    data: GameEventData[T];
+}
+
+type GameEventHandler<T extends GameEventType> = (data: GameEventData[T]) => void;
+
+class GameEventBus {
+    private listeners: ((event: GameEvent<GameEventType>) => void)[] = [];
+
+    /**
+     * Recibe todos los eventos (log, estadísticas, repeticiones)
+     */
+    subscribe(listener: (event: GameEvent<GameEventType>) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Recibe solo los eventos de un tipo, con sus datos tipados
+     */
+    on<T extends GameEventType>(type: T, handler: GameEventHandler<T>): () => void {
+        return this.subscribe(event => {
+            if (event.type === type) {
+                handler(event.data as GameEventData[T]);
+            }
+        });
+    }
+
+    publish<T extends GameEventType>(type: T, data: GameEventData[T]): void {
+        const event: GameEvent<T> = { type, data };
+        // Un suscriptor que falla no debe interrumpir la lógica de juego ni a los demás
+        [...this.listeners].forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`❌ GameEventBus: Error en suscriptor de '${type}':`, error);
+            }
+        });
+    }
+}
+
+export const gameEventBus = new GameEventBus();
@@ -0,0 +1,140 @@
+// src/engine/GameFeedbackSystem.ts
+
+/**
+ * Respuesta audiovisual a los eventos de dominio.
+ * Escucha el GameEventBus y dispara animaciones y sonidos de las cartas jugadas,
+ * de modo que la lógica de turnos no depende de la capa de presentación.
+ * Solo se activa con interfaz; las simulaciones sin interfaz nunca lo habilitan.
+ */
+
+import { gameEventBus } from './GameEventBus';
+import { vfxSystem } from './VFXSystem';
+import { uiPositionManager } from './UIPositionManager';
+import { audioManager } from './AudioManager';
+import type { EffectId } from './AudioManager';
+import { gameClock } from './GameClock';
+import type { Card } from './types';
+
+class GameFeedbackSystem {
+    private unsubscribers: (() => void)[] = [];
+
+    get isEnabled() {
+        return this.unsubscribers.length > 0;
+    }
+
+    enable() {
+        if (this.isEnabled) return;
+
+        this.unsubscribers = [
+            gameEventBus.on('CardPlayed', ({ card, source }) => {
+                if (source === 'PLAYER') {
+                    this.presentPlayerCard(card);
+                } else {
+                    this.presentEcoCard(card);
+                }
+            }),
+        ];
+        console.log('🎬 GameFeedbackSystem: Activado');
+    }
+
+    disable() {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+    }
+
+    /**
+     * Animación y sonido de la carta jugada por el jugador
+     */
+    private presentPlayerCard(card: Card) {
+        // Calcular posiciones reales para efectos VFX
+        const startPosition = uiPositionManager.get('playerHand') || {
+            x: window.innerWidth / 2,
+            y: window.innerHeight - 120
+        };
+
+        // Posición central para la animación de carta
+        const centerPosition = {
+            x: window.innerWidth / 2,
+            y: window.innerHeight / 2 - 50
+        };
+
+        // Posición del ECO (lado derecho superior)
+        const endPosition = uiPositionManager.get('eco') || {
+            x: window.innerWidth - 200,
+            y: 150
+        };
+
+        console.log(`🎯 GameFeedbackSystem: Triggering player card animation for`, card.rank, card.suit);
+
+        vfxSystem.playerPlayCard({
+            card,
+            startPosition,
+            centerPosition
+        });
+
+        console.log(`🎯 GameFeedbackSystem: Triggering VFX from`, startPosition, 'to', endPosition, 'for suit', card.suit);
+        vfxSystem.triggerSuitEffect(card.suit, startPosition, endPosition);
+
+        // Reproducir efecto de sonido específico según el palo de la carta
+        this.playCardSoundEffect(card);
+    }
+
+    /**
+     * Animación de la carta revelada por el Eco
+     */
+    private presentEcoCard(card: Card) {
+        // Posiciones correctas basadas en el layout real - ajustadas para visibilidad
+        const ecoHandPos = { x: 640, y: 120 }; // Parte superior central - donde estarían las cartas ECO
+        const playZonePos = { x: 640, y: 390 }; // Centro de la zona de juego (zona verde)
+
+        console.log(`🎭 GameFeedbackSystem: Triggering advanced ECO card play animation from hand (${ecoHandPos.x}, ${ecoHandPos.y}) to play zone (${playZonePos.x}, ${playZonePos.y})`);
+        vfxSystem.ecoPlayCard({
+            card,
+            startPosition: ecoHandPos,
+            centerPosition: playZonePos
+        });
+    }
+
+    /**
+     * Reproduce efectos de sonido específicos según el tipo de carta jugada
+     */
+    private playCardSoundEffect(card: Card) {
+        const effectVolume = 0.7;
+
+        switch (card.suit) {
+            case 'Spades': { // Ataques - sonidos de golpe/corte
+                const attackSounds: EffectId[] = ['attack-hit-1', 'attack-hit-2', 'attack-hit-3', 'attack-cut-1', 'attack-cut-2'];
+                const randomAttack = attackSounds[Math.floor(Math.random() * attackSounds.length)];
+                audioManager.playEffect(randomAttack, effectVolume);
+                break;
+            }
+
+            case 'Hearts': // Curación/vida - sonido suave
+                audioManager.playEffect('treasure-1', effectVolume * 0.8); // Más suave para curación
+                break;
+
+            case 'Clubs': // Reparación/utilidad - sonido mecánico
+                audioManager.playEffect('menu-select', effectVolume);
+                break;
+
+            case 'Diamonds': { // Recursos/especiales - sonido brillante
+                const treasureSounds: EffectId[] = ['treasure-1', 'treasure-2', 'treasure-3'];
+                const randomTreasure = treasureSounds[Math.floor(Math.random() * treasureSounds.length)];
+                audioManager.playEffect(randomTreasure, effectVolume);
+                break;
+            }
+
+            default:
+                audioManager.playEffect('menu-select', effectVolume);
+        }
+
+        // Para cartas especiales o de alto valor, agregar efecto adicional
+        if (['J', 'Q', 'K', 'A'].includes(card.rank)) {
+            gameClock.schedule(() => {
+                audioManager.playEffect('attack-special', effectVolume * 0.6);
+            }, 200);
+        }
+    }
+}
+
+export const gameFeedbackSystem = new GameFeedbackSystem();
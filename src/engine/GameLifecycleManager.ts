@@ -8,6 +8,10 @@
  */
 
 import { gameStateManager } from './GameStateManager';
+import { statusEffectSystem } from './StatusEffectSystem';
+import { triggerSystem } from './TriggerSystem';
+import { milestoneSystem } from './MilestoneSystem';
+import { environmentSystem } from './EnvironmentSystem';
 import { vfxSystem } from './VFXSystem';
 import { audioManager } from './AudioManager';
 import { localStorageManager } from './LocalStorageManager';
@@ -15,6 +19,7 @@ import { localStorageManager } from './LocalStorageManager';
 // import { floatingNumbersSystem } from './FloatingNumbersSystem';
 import { pixiScreenEffects } from './PixiScreenEffects';
 import { vfxController } from './VFXController';
+import { gameClock } from './GameClock';
 
 export enum GameLifecycleState {
   MENU = 'menu',
@@ -155,7 +160,8 @@ class GameLifecycleManager {
     if (this.currentState === GameLifecycleState.PLAYING) {
       this.setState(GameLifecycleState.PAUSED);
       
-      // Pausar audio
+      // Congelar las esperas del motor y pausar audio
+      gameClock.pause();
       audioManager.pauseAll();
       
       console.log('⏸️ GameLifecycle: Game paused');
@@ -166,7 +172,8 @@ class GameLifecycleManager {
     if (this.currentState === GameLifecycleState.PAUSED) {
       this.setState(GameLifecycleState.PLAYING);
       
-      // Resumir audio
+      // Reanudar las esperas del motor y el audio
+      gameClock.resume();
       audioManager.resumeAll();
       
       console.log('▶️ GameLifecycle: Game resumed');
@@ -206,8 +213,12 @@ class GameLifecycleManager {
     console.log('🔄 GameLifecycle: Performing complete game reset');
     
     try {
-      // 1. Reset GameStateManager
+      // 1. Reset GameStateManager, estados alterados, disparadores, cronología y eventos en juego
+      triggerSystem.reset();
+      milestoneSystem.reset();
+      environmentSystem.reset();
       gameStateManager.reset();
+      statusEffectSystem.reset();
       
       // 2. Limpiar sistemas VFX
       this.cleanupVFXSystems();
@@ -307,7 +318,9 @@ class GameLifecycleManager {
     // Igual que reset pero más agresivo
     this.performCompleteReset();
     
-    // Adicional: limpiar referencias de sesión
+    // Adicional: descartar esperas pendientes del motor y limpiar referencias de sesión
+    gameClock.clear();
+    gameClock.resume();
     this.currentSession = null;
     this.sessionStartTime = 0;
   }
@@ -1,5 +1,7 @@
 // src/engine/GameLogSystem.ts
 
+import { gameEventBus } from './GameEventBus';
+
 export type MessageSource = 'player' | 'eco' | 'system' | 'event';
 export type MessageType = 'attack' | 'defend' | 'search' | 'research' | 'focus' | 'draw' | 'discard' | 'damage' | 'heal' | 'special' | 'node_damage' | 'node_repair' | 'hallucination' | 'info';
 
@@ -18,6 +20,14 @@ class GameLogSystem {
     constructor() {
         // Mensaje de bienvenida para verificar que el log funciona
         this.addMessage('🎮 Sistema de juego inicializado. ¡Bienvenido a Eco del Vacío!', 'system', 'info');
+
+        gameEventBus.on('DamageDealt', ({ target, stat, amount }) => {
+            if (target === 'ECO') {
+                this.addMessage(`Infliges ${amount} de daño al Eco.`, 'player', 'attack');
+            } else {
+                this.addMessage(`Pierdes ${amount} ${stat}.`, 'system', 'info');
+            }
+        });
     }
 
     subscribe(listener: (messages: LogMessage[]) => void) {
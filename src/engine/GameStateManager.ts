@@ -1,9 +1,10 @@
 // src/engine/GameStateManager.ts
 
-import type { Card } from './types';
+import type { Card, StatType } from './types';
 import { scenarioLoader } from './ScenarioLoader';
 import { deckManager } from './DeckManager';
 import { floatingNumbersSystem } from './FloatingNumbersSystem';
+import { gameClock } from './GameClock';
 // Importar turnManager con lazy loading para evitar circular imports
 let turnManager: any = null;
 const getTurnManager = async () => {
@@ -22,7 +23,23 @@ export enum GamePhase {
     GAME_OVER,
 }
 
-type PlayerStatusEffect = 'cannotPlaySpades';
+export interface GameStateSnapshot {
+    pv: number;
+    sanity: number;
+    pa: number;
+    hand: Card[];
+    phase: GamePhase;
+    turn: number;
+    ecoHp: number;
+    maxEcoHp: number;
+    victory: boolean | null;
+    maxAP: number;
+    maxHandSize: number;
+    maxSanity: number;
+    maxPV: number;
+    criticalDamageBoost: number;
+    storyFlags: string[];
+}
 
 class GameStateManager {
     private _pv: number = 20;
@@ -32,9 +49,7 @@ class GameStateManager {
     private _phase: GamePhase = GamePhase.EVENT;
     private _turn: number = 1;
     private _ecoHp: number = 50;
-    private _isEcoExposed: boolean = false;
     private _victory: boolean | null = null;
-    private _playerStatusEffects: PlayerStatusEffect[] = [];
     private _ecoRevealedCard: Card | null = null;
     private _cardsToDraw: Card[] = [];
     
@@ -54,8 +69,10 @@ class GameStateManager {
     private _maxAP: number = 2;
     private _maxHandSize: number = 5;
     private _maxSanity: number = 20;
+    private _maxPV: number = 20;
     private _criticalDamageBoost: number = 0;
     private _maxEcoHp: number = 50;
+    private _storyFlags: string[] = []; // Marcas de historia de las opciones de eventos
 
     private listeners: (() => void)[] = [];
 
@@ -77,22 +94,21 @@ class GameStateManager {
     get phase() { return this._phase; }
     get turn() { return this._turn; }
     get ecoHp() { return this._ecoHp; }
-    get isEcoExposed() { return this._isEcoExposed; }
     get isGameOver() { return this._victory !== null; }
     get victory() { return this._victory; }
-    get playerStatusEffects() { return this._playerStatusEffects; }
     get ecoRevealedCard() { return this._ecoRevealedCard; }
     get maxEcoHp() { return this._maxEcoHp; }
     get cardsToDraw() { return this._cardsToDraw; }
     get maxAP() { return this._maxAP; }
     get maxHandSize() { return this._maxHandSize; }
     get criticalDamageBoost() { return this._criticalDamageBoost; }
-    get maxPV() { return 20; } // Valor máximo hardcoded por ahora
+    get maxPV() { return this._maxPV; }
     get maxSanity() { return this._maxSanity; }
     get selectedCards() { return this._selectedCards; }
     get currentAction() { return this._currentAction; }
     get targetNodeId() { return this._targetNodeId; }
     get isNodeSelectionMode() { return this._isNodeSelectionMode; }
+    get storyFlags() { return this._storyFlags; }
 
     set pv(value: number) { this._pv = Math.max(0, value); this.notify(); }
     set sanity(value: number) { this._sanity = Math.max(0, value); this.notify(); }
@@ -101,9 +117,7 @@ class GameStateManager {
     set phase(value: GamePhase) { this._phase = value; this.notify(); }
     set turn(value: number) { this._turn = value; this.notify(); }
     set ecoHp(value: number) { this._ecoHp = Math.max(0, value); this.notify(); }
-    set isEcoExposed(value: boolean) { this._isEcoExposed = value; this.notify(); }
     set victory(value: boolean | null) { this._victory = value; this.notify(); }
-    set playerStatusEffects(value: PlayerStatusEffect[]) { this._playerStatusEffects = value; this.notify(); }
     set ecoRevealedCard(value: Card | null) { this._ecoRevealedCard = value; this.notify(); }
     set criticalDamageBoost(value: number) { this._criticalDamageBoost = value; this.notify(); }
 
@@ -148,6 +162,16 @@ class GameStateManager {
         this.notify();
     }
 
+    setStoryFlag(flag: string) {
+        if (this._storyFlags.includes(flag)) return;
+        this._storyFlags = [...this._storyFlags, flag];
+        this.notify();
+    }
+
+    hasStoryFlag(flag: string): boolean {
+        return this._storyFlags.includes(flag);
+    }
+
     reset() {
         try {
             const config = scenarioLoader.config;
@@ -156,20 +180,21 @@ class GameStateManager {
             this._pa = config.initialPlayerStats.PA;
             this._maxAP = config.initialPlayerStats.PA;
             this._maxHandSize = config.initialPlayerStats.handSize;
+            this._maxPV = config.initialPlayerStats.PV;
+            this._maxSanity = config.initialPlayerStats.COR;
             this._ecoHp = config.initialEcoHP;
             this._maxEcoHp = config.initialEcoHP;
             this._hand = [];
             this._phase = GamePhase.EVENT;
             this._turn = 1;
-            this._isEcoExposed = false;
             this._victory = null;
-            this._playerStatusEffects = [];
             this._ecoRevealedCard = null;
             this._cardsToDraw = [];
             this._selectedCards = [];
             this._currentAction = 'none';
             this._targetNodeId = null;
             this._isNodeSelectionMode = false;
+            this._storyFlags = [];
             this.notify();
         } catch (error) {
             console.error('Error resetting game state:', error);
@@ -179,24 +204,72 @@ class GameStateManager {
             this._pa = 2;
             this._maxAP = 2;
             this._maxHandSize = 5;
+            this._maxPV = 20;
+            this._maxSanity = 20;
             this._ecoHp = 50;
             this._maxEcoHp = 50;
             this._hand = [];
             this._phase = GamePhase.EVENT;
             this._turn = 1;
-            this._isEcoExposed = false;
             this._victory = null;
-            this._playerStatusEffects = [];
             this._ecoRevealedCard = null;
             this._cardsToDraw = [];
             this._selectedCards = [];
             this._currentAction = 'none';
             this._targetNodeId = null;
             this._isNodeSelectionMode = false;
+            this._storyFlags = [];
             this.notify();
         }
     }
 
+    serialize(): GameStateSnapshot {
+        return {
+            pv: this._pv,
+            sanity: this._sanity,
+            pa: this._pa,
+            hand: [...this._hand],
+            phase: this._phase,
+            turn: this._turn,
+            ecoHp: this._ecoHp,
+            maxEcoHp: this._maxEcoHp,
+            victory: this._victory,
+            maxAP: this._maxAP,
+            maxHandSize: this._maxHandSize,
+            maxSanity: this._maxSanity,
+            maxPV: this._maxPV,
+            criticalDamageBoost: this._criticalDamageBoost,
+            storyFlags: [...this._storyFlags],
+        };
+    }
+
+    restore(snapshot: GameStateSnapshot) {
+        this._pv = snapshot.pv;
+        this._sanity = snapshot.sanity;
+        this._pa = snapshot.pa;
+        this._hand = [...snapshot.hand];
+        this._phase = snapshot.phase;
+        this._turn = snapshot.turn;
+        this._ecoHp = snapshot.ecoHp;
+        this._maxEcoHp = snapshot.maxEcoHp;
+        this._victory = snapshot.victory;
+        this._maxAP = snapshot.maxAP;
+        this._maxHandSize = snapshot.maxHandSize;
+        this._maxSanity = snapshot.maxSanity;
+        this._maxPV = snapshot.maxPV;
+        this._criticalDamageBoost = snapshot.criticalDamageBoost;
+        this._storyFlags = [...snapshot.storyFlags];
+        // El estado de interacción no se guarda: se retoma sin selección activa
+        this._ecoRevealedCard = null;
+        this._cardsToDraw = [];
+        this._selectedCards = [];
+        this._currentAction = 'none';
+        this._targetNodeId = null;
+        this._isNodeSelectionMode = false;
+        this.pendingEcoFloatingNumbers = [];
+        this.notify();
+    }
+
     spendActionPoints(amount: number) {
         if (this.pa >= amount) {
             this.pa -= amount;
@@ -247,6 +320,33 @@ class GameStateManager {
         }
     }
 
+    /**
+     * Suma amount al máximo de una estadística (PV, COR, PA o HP del Eco).
+     * El valor actual se recorta si supera el nuevo máximo; los PA cambian desde el próximo turno.
+     * @returns el nuevo máximo
+     */
+    modifyMaxStat(stat: StatType, amount: number): number {
+        switch (stat) {
+            case 'PV':
+                this._maxPV = Math.max(1, this._maxPV + amount);
+                this._pv = Math.min(this._pv, this._maxPV);
+                break;
+            case 'COR':
+                this._maxSanity = Math.max(1, this._maxSanity + amount);
+                this._sanity = Math.min(this._sanity, this._maxSanity);
+                break;
+            case 'PA':
+                this._maxAP = Math.max(0, this._maxAP + amount);
+                break;
+            case 'HP':
+                this._maxEcoHp = Math.max(1, this._maxEcoHp + amount);
+                this._ecoHp = Math.min(this._ecoHp, this._maxEcoHp);
+                break;
+        }
+        this.notify();
+        return { PV: this._maxPV, COR: this._maxSanity, PA: this._maxAP, HP: this._maxEcoHp }[stat];
+    }
+
     addCardsToHand(cards: Card[]) {
         if (!cards || cards.length === 0) return;
         this.hand = [...this.hand, ...cards];
@@ -298,18 +398,6 @@ class GameStateManager {
         this.checkForGameOver();
     }
 
-    addPlayerStatusEffect(effect: PlayerStatusEffect) {
-        if (!this._playerStatusEffects.includes(effect)) {
-            this._playerStatusEffects.push(effect);
-            this.notify();
-        }
-    }
-
-    removePlayerStatusEffect(effect: PlayerStatusEffect) {
-        this._playerStatusEffects = this._playerStatusEffects.filter(e => e !== effect);
-        this.notify();
-    }
-
     /**
      * Verifica si hay números flotantes pendientes del ECO
      */
@@ -337,7 +425,7 @@ class GameStateManager {
         
         // Mostrar todos los números flotantes con un pequeño delay entre cada uno
         this.pendingEcoFloatingNumbers.forEach((floatingNumber, index) => {
-            setTimeout(() => {
+            gameClock.schedule(() => {
                 if (floatingNumber.type === 'damage') {
                     floatingNumbersSystem.showDamage(floatingNumber.amount, floatingNumber.position);
                     console.log(`👤 GameState: Mostrando número flotante de daño HP: ${floatingNumber.amount}`);
@@ -353,7 +441,7 @@ class GameStateManager {
         
         // Retornar promesa que se resuelve cuando todos los números han terminado
         return new Promise(resolve => {
-            setTimeout(() => {
+            gameClock.schedule(() => {
                 console.log('📊 GameState: Todos los números flotantes diferidos del ECO han terminado');
                 resolve();
             }, totalDuration);
@@ -2,6 +2,9 @@
 import { deckManager } from './DeckManager';
 import { gameStateManager } from './GameStateManager';
 import { gameLogSystem } from './GameLogSystem';
+import { randomSystem } from './RandomSystem';
+import { gameEventBus } from './GameEventBus';
+import { statusEffectSystem } from './StatusEffectSystem';
 import type { HallucinationCard } from './types';
 
 const hallucinationCards: HallucinationCard[] = [
@@ -54,14 +57,31 @@ class HallucinationSystem {
         gameLogSystem.addMessage(`Hallucination level decreased to ${this.hallucinationLevel}`);
     }
 
+    serialize(): { level: number } {
+        return { level: this.hallucinationLevel };
+    }
+
+    restore(snapshot: { level: number }) {
+        this.hallucinationLevel = snapshot.level;
+    }
+
     addHallucinationToDeck() {
-        const card = hallucinationCards[Math.floor(Math.random() * hallucinationCards.length)];
+        const card = hallucinationCards[randomSystem.nextInt(hallucinationCards.length)];
         deckManager.addCardToDeck(card);
         deckManager.shuffle();
     }
 
+    /**
+     * Retira alucinaciones del mazo y del descarte del jugador
+     * @returns cuántas se han retirado
+     */
+    removeHallucinationsFromDeck(count: number): number {
+        return deckManager.removeCards(card => 'isHallucination' in card, count).length;
+    }
+
     applyHallucinationEffect(card: HallucinationCard) {
         gameLogSystem.addMessage(`Hallucination effect: ${card.description}`);
+        gameEventBus.publish('HallucinationDrawn', { card });
         switch (card.effect) {
             case 'lose_sanity':
                 gameStateManager.dealSanityDamage(2);
@@ -71,7 +91,7 @@ class HallucinationSystem {
                 gameStateManager.hand = [];
                 break;
             case 'cannot_play_spades':
-                gameStateManager.addPlayerStatusEffect('cannotPlaySpades');
+                statusEffectSystem.apply('PLAYER', 'SPADES_SEALED', 1, 1, 'EVENT');
                 break;
         }
     }
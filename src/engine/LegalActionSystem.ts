@@ -0,0 +1,332 @@
+// src/engine/LegalActionSystem.ts
+
+/**
+ * Fuente única de las acciones válidas del jugador en el estado actual.
+ * TurnManager y CardEffectEngine validan con estas comprobaciones antes de
+ * ejecutar, la interfaz desactiva las opciones imposibles y los bots eligen
+ * entre las acciones que devuelve getLegalActions().
+ */
+
+import { gameStateManager, GamePhase } from './GameStateManager';
+import { nodeSystem } from './NodeSystem';
+import { scenarioRulesEngine } from './ScenarioRulesEngine';
+import { statusEffectSystem } from './StatusEffectSystem';
+import { choiceSystem } from './ChoiceSystem';
+import { environmentSystem } from './EnvironmentSystem';
+import type { ReplayAction } from './ActionRecorder';
+import type { ActionCost, Card, ComboRule, PlayerActionRule, RuleCost } from './types';
+import { SUIT_NAMES } from './types';
+
+export interface ActionCheck {
+    allowed: boolean;
+    reason?: string; // Motivo legible cuando no está permitida
+}
+
+export interface LegalAction {
+    action: ReplayAction; // Comando ejecutable con turnManager.executeAction
+    cost: Required<ActionCost>; // Recursos que consume
+    cards: Card[]; // Cartas de la mano implicadas
+    rule?: PlayerActionRule; // Regla del escenario que dispara la carta, si la hay
+    repairAmount?: number; // Daño que repara una combinación de tréboles
+    combo?: ComboRule; // Combinación de rules.json que forman las cartas
+}
+
+const DEFAULT_CARD_COST = 1; // Coste del sistema hardcoded cuando ninguna regla coincide
+const REPAIR_DIVISOR = 5; // Reparación = valor total de los tréboles / 5
+
+const allowed: ActionCheck = { allowed: true };
+const denied = (reason: string): ActionCheck => ({ allowed: false, reason });
+const paCost = (pa: number): Required<ActionCost> => ({ pa, cor: 0, pv: 0, discard: 0, discardSuit: '' });
+
+class LegalActionSystem {
+    /**
+     * Todas las acciones válidas ahora mismo; vacío fuera de la fase de acción
+     */
+    getLegalActions(): LegalAction[] {
+        if (!this.checkPhase().allowed) return [];
+
+        const hand = gameStateManager.hand;
+        const actions: LegalAction[] = [];
+
+        hand.forEach(card => {
+            if (this.checkCardPlay(card).allowed) {
+                const rule = this.getCardRule(card);
+                actions.push({
+                    action: { type: 'playCard', cardId: card.id },
+                    cost: this.getCardCost(card),
+                    cards: [card],
+                    rule,
+                });
+            }
+        });
+
+        hand.forEach(card => {
+            if (this.checkFocus(card).allowed) {
+                actions.push({ action: { type: 'performFocus', cardId: card.id }, cost: paCost(1), cards: [card] });
+            }
+        });
+
+        if (this.checkDraw().allowed) {
+            actions.push({ action: { type: 'drawCard' }, cost: paCost(1), cards: [] });
+        }
+
+        actions.push(...this.getRepairActions());
+        actions.push(...this.getComboActions());
+        actions.push(...this.getClearEventActions());
+
+        actions.push({ action: { type: 'endPlayerTurn' }, cost: paCost(0), cards: [] });
+
+        return actions;
+    }
+
+    /**
+     * Regla del escenario que dispararía la carta (undefined si se usa el sistema hardcoded)
+     */
+    getCardRule(card: Card): PlayerActionRule | undefined {
+        return scenarioRulesEngine.hasRules ? scenarioRulesEngine.findPlayerActionRule(card) : undefined;
+    }
+
+    getCardCost(card: Card): Required<ActionCost> {
+        return scenarioRulesEngine.normalizeCost(this.getCardRule(card)?.cost ?? DEFAULT_CARD_COST);
+    }
+
+    /**
+     * Coste legible para menús y tooltips (ej: "1 PA + 3 COR + descartar 1")
+     */
+    describeCost(cost: RuleCost): string {
+        const { pa, cor, pv, discard, discardSuit } = scenarioRulesEngine.normalizeCost(cost);
+        const suitText = discardSuit ? ` de ${SUIT_NAMES[discardSuit] ?? discardSuit}` : '';
+        const parts = [
+            pa > 0 ? `${pa} PA` : '',
+            cor > 0 ? `${cor} COR` : '',
+            pv > 0 ? `${pv} PV` : '',
+            discard > 0 ? `descartar ${discard}${suitText}` : '',
+        ].filter(part => part !== '');
+        return parts.length > 0 ? parts.join(' + ') : 'Gratis';
+    }
+
+    checkCardPlay(card: Card): ActionCheck {
+        const phase = this.checkPhase();
+        if (!phase.allowed) return phase;
+
+        const blockingStatus = statusEffectSystem.getBlockingStatus('PLAYER', card.suit);
+        if (blockingStatus) {
+            return denied(`No puedes jugar esta carta mientras sufres ${blockingStatus.name}.`);
+        }
+        return this.checkCost(this.getCardRule(card)?.cost ?? DEFAULT_CARD_COST, [card]);
+    }
+
+    getComboRule(cards: Card[]): ComboRule | undefined {
+        return scenarioRulesEngine.hasRules ? scenarioRulesEngine.findComboRule(cards) : undefined;
+    }
+
+    /**
+     * Marcar una carta de la mano para formar una combinación
+     */
+    checkComboCard(card: Card): ActionCheck {
+        const phase = this.checkPhase();
+        if (!phase.allowed) return phase;
+
+        if (!scenarioRulesEngine.hasCombos) {
+            return denied('Este escenario no tiene combinaciones.');
+        }
+        if ('isHallucination' in card) {
+            return denied('Las alucinaciones no forman combinaciones.');
+        }
+        const blockingStatus = statusEffectSystem.getBlockingStatus('PLAYER', card.suit);
+        if (blockingStatus) {
+            return denied(`No puedes jugar esta carta mientras sufres ${blockingStatus.name}.`);
+        }
+        return allowed;
+    }
+
+    /**
+     * Jugar varias cartas de la mano a la vez como una combinación de rules.json
+     */
+    checkCombo(cards: Card[]): ActionCheck {
+        const phase = this.checkPhase();
+        if (!phase.allowed) return phase;
+
+        if (cards.length < 2) {
+            return denied('Selecciona al menos dos cartas para un combo.');
+        }
+        if (cards.some(card => !gameStateManager.hand.some(c => c.id === card.id))) {
+            return denied('La carta no está en tu mano.');
+        }
+        const blocked = cards.map(card => this.checkComboCard(card)).find(check => !check.allowed);
+        if (blocked) return blocked;
+
+        const rule = this.getComboRule(cards);
+        if (!rule) {
+            return denied('Las cartas seleccionadas no forman ninguna combinación.');
+        }
+        return this.checkCost(rule.cost, cards);
+    }
+
+    /**
+     * Enfocar: descartar una carta de la mano y robar otra
+     */
+    checkFocus(card: Card): ActionCheck {
+        const phase = this.checkPhase();
+        if (!phase.allowed) return phase;
+
+        if (!gameStateManager.hand.some(c => c.id === card.id)) {
+            return denied('La carta no está en tu mano.');
+        }
+        return this.checkActionPoints(1);
+    }
+
+    checkDraw(): ActionCheck {
+        const phase = this.checkPhase();
+        if (!phase.allowed) return phase;
+        return this.checkActionPoints(1);
+    }
+
+    checkRepair(nodeId: string, cards: Card[]): ActionCheck {
+        const phase = this.checkPhase();
+        if (!phase.allowed) return phase;
+
+        if (cards.length === 0) {
+            return denied('No has seleccionado cartas para reparar.');
+        }
+        if (cards.some(card => card.suit !== 'Clubs')) {
+            return denied('Solo se pueden usar Tréboles para reparar.');
+        }
+
+        const node = nodeSystem.getNode(nodeId);
+        if (!node) {
+            return denied('Nodo no válido.');
+        }
+        if (node.isCollapsed) {
+            return denied(`El nodo ${node.name} ha colapsado.`);
+        }
+        if (node.damage === 0) {
+            return denied(`El nodo ${node.name} no necesita reparación.`);
+        }
+
+        const points = this.checkActionPoints(cards.length);
+        if (!points.allowed) return points;
+
+        if (this.getRepairAmount(cards) === 0) {
+            return denied(`Los tréboles deben sumar al menos ${REPAIR_DIVISOR} para reparar.`);
+        }
+        return allowed;
+    }
+
+    /**
+     * Despejar un evento ambiental en juego pagando el coste de su acción
+     */
+    checkClearEvent(eventId: string): ActionCheck {
+        const phase = this.checkPhase();
+        if (!phase.allowed) return phase;
+
+        const active = environmentSystem.getActiveEvent(eventId);
+        if (!active) {
+            return denied('Ese evento ya no está en juego.');
+        }
+        if (!active.config.clear) {
+            return denied(`${active.event.event} no se puede despejar.`);
+        }
+        return this.checkCost(active.config.clear.cost, []);
+    }
+
+    getRepairAmount(cards: Card[]): number {
+        return Math.floor(cards.reduce((sum, card) => sum + card.value, 0) / REPAIR_DIVISOR);
+    }
+
+    /**
+     * Combinaciones de tréboles de la mano que reparan cada nodo dañado
+     */
+    private getRepairActions(): LegalAction[] {
+        const clubs = gameStateManager.hand.filter(card => card.suit === 'Clubs');
+        const maxCards = Math.min(gameStateManager.pa, clubs.length);
+        const combos = Array.from({ length: maxCards }, (_, i) => this.combinations(clubs, i + 1))
+            .flat()
+            .filter(cards => this.getRepairAmount(cards) > 0);
+
+        return nodeSystem.allNodes
+            .filter(node => node.damage > 0 && !node.isCollapsed)
+            .flatMap(node => combos.map(cards => ({
+                action: { type: 'repairNode' as const, nodeId: node.id, cardIds: cards.map(card => card.id) },
+                cost: paCost(cards.length),
+                cards,
+                repairAmount: this.getRepairAmount(cards),
+            })));
+    }
+
+    /**
+     * Grupos de cartas de la mano que forman una combinación jugable
+     */
+    private getComboActions(): LegalAction[] {
+        if (!scenarioRulesEngine.hasCombos) return [];
+
+        return scenarioRulesEngine.comboSizes
+            .flatMap(size => this.combinations(gameStateManager.hand, size))
+            .filter(cards => this.checkCombo(cards).allowed)
+            .flatMap(cards => {
+                const combo = this.getComboRule(cards);
+                return combo
+                    ? [{ action: { type: 'playCombo' as const, cardIds: cards.map(card => card.id) }, cost: scenarioRulesEngine.normalizeCost(combo.cost), cards, combo }]
+                    : [];
+            });
+    }
+
+    private getClearEventActions(): LegalAction[] {
+        return environmentSystem.activeEvents
+            .filter(active => active.config.clear && this.checkClearEvent(active.event.id).allowed)
+            .map(active => ({
+                action: { type: 'clearEvent' as const, eventId: active.event.id },
+                cost: scenarioRulesEngine.normalizeCost(active.config.clear?.cost ?? 0),
+                cards: [],
+            }));
+    }
+
+    /**
+     * Grupos de exactamente size cartas, en el orden de la mano
+     */
+    private combinations(cards: Card[], size: number): Card[][] {
+        const result: Card[][] = [];
+        const current: Card[] = [];
+        const collect = (start: number) => {
+            if (current.length === size) {
+                result.push([...current]);
+                return;
+            }
+            for (let i = start; i <= cards.length - (size - current.length); i++) {
+                current.push(cards[i]);
+                collect(i + 1);
+                current.pop();
+            }
+        };
+        if (size > 0) collect(0);
+        return result;
+    }
+
+    private checkPhase(): ActionCheck {
+        if (gameStateManager.isGameOver || gameStateManager.phase !== GamePhase.PLAYER_ACTION) {
+            return denied('No es tu turno.');
+        }
+        if (choiceSystem.isPending) {
+            return denied('Responde primero a la elección pendiente.');
+        }
+        return allowed;
+    }
+
+    /**
+     * Coste de una regla; los descartes se pagan con las cartas que no se están jugando
+     */
+    private checkCost(cost: RuleCost, playedCards: Card[]): ActionCheck {
+        const discardable = gameStateManager.hand.filter(card => !playedCards.some(played => played.id === card.id));
+        const reason = scenarioRulesEngine.getUnpayableReason(cost, discardable);
+        return reason ? denied(reason) : allowed;
+    }
+
+    private checkActionPoints(cost: number): ActionCheck {
+        if (gameStateManager.pa < cost) {
+            return denied(`Necesitas ${cost} PA (tienes ${gameStateManager.pa}).`);
+        }
+        return allowed;
+    }
+}
+
+export const legalActionSystem = new LegalActionSystem();
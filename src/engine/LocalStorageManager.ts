@@ -70,6 +70,7 @@ class LocalStorageManager {
     SETTINGS: 'eco_game_settings',
     STATISTICS: 'eco_game_statistics',
     PREFERENCES: 'eco_game_preferences',
+    SAVED_GAME: 'eco_game_saved_game',
     VERSION: 'eco_storage_version',
   };
 
@@ -206,6 +207,31 @@ class LocalStorageManager {
     console.log('⚙️ LocalStorage: User preferences saved');
   }
 
+  // 🔧 PARTIDA GUARDADA
+  saveGameSnapshot<T>(snapshot: T): void {
+    this.saveData(this.KEYS.SAVED_GAME, snapshot);
+    console.log('💾 LocalStorage: Game snapshot saved');
+  }
+
+  loadGameSnapshot<T>(): T | null {
+    try {
+      const stored = localStorage.getItem(this.KEYS.SAVED_GAME);
+      return stored ? JSON.parse(stored) as T : null;
+    } catch (error) {
+      console.warn('⚠️ LocalStorage: Error loading game snapshot:', error);
+      return null;
+    }
+  }
+
+  hasGameSnapshot(): boolean {
+    return localStorage.getItem(this.KEYS.SAVED_GAME) !== null;
+  }
+
+  clearGameSnapshot(): void {
+    localStorage.removeItem(this.KEYS.SAVED_GAME);
+    console.log('🧹 LocalStorage: Game snapshot cleared');
+  }
+
   // 🔧 UTILIDADES INTERNAS
   private loadWithDefaults<T>(key: string, defaults: T): T {
     try {
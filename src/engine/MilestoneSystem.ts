@@ -0,0 +1,102 @@
+// src/engine/MilestoneSystem.ts
+
+/**
+ * Cronología del escenario (events-crono.json): hitos de la historia que se
+ * suceden en orden a lo largo de la partida. Al comenzar cada turno se comprueba
+ * el siguiente hito pendiente; si ya ha llegado su turno y se cumple su condición
+ * (vida del Eco, nodos colapsados...), aplica sus efectos y se presenta como un evento.
+ */
+
+import { gameStateManager } from './GameStateManager';
+import { scenarioRulesEngine } from './ScenarioRulesEngine';
+import type { Card, DynamicEvent, Milestone } from './types';
+
+// Las ilustraciones de los hitos están pendientes: se presentan con el reverso de la baraja
+const MILESTONE_CARD_IMAGE = 'card-back.jpg';
+
+// Hitos ya alcanzados: siempre los primeros de la cronología
+export interface MilestoneSnapshot {
+    reached: number;
+}
+
+export interface ReachedMilestone {
+    card: Card;          // Carta que representa el hito en la presentación del evento
+    event: DynamicEvent;
+}
+
+class MilestoneSystem {
+    private milestones: Milestone[] = [];
+    private reached = 0;
+
+    /**
+     * Carga la cronología del escenario (vacía si no tiene)
+     */
+    load(milestones: Milestone[]) {
+        this.milestones = milestones;
+        this.reached = 0;
+
+        milestones.forEach(milestone => {
+            scenarioRulesEngine.validateEffects(milestone.effects ?? [], `hito ${milestone.id}`)
+                .forEach(error => console.error(`❌ MilestoneSystem: Efecto inválido en ${error}`));
+        });
+        console.log(`📜 MilestoneSystem: ${milestones.length} hito(s) en la cronología`);
+    }
+
+    /**
+     * Alcanza el siguiente hito si ya es su momento y aplica sus efectos.
+     * Como mucho uno por llamada: un hito por turno, además de los eventos del mazo.
+     */
+    reachNext(): ReachedMilestone | null {
+        const milestone = this.milestones[this.reached];
+        if (!milestone || !this.isDue(milestone)) return null;
+
+        this.reached++;
+        console.log(`📜 MilestoneSystem: Hito ${milestone.id} "${milestone.name}" (${this.reached}/${this.milestones.length})`);
+
+        const card = this.createMilestoneCard(milestone);
+        scenarioRulesEngine.applyRuleEffects(milestone.effects ?? [], card, `hito ${milestone.id}`);
+
+        return {
+            card,
+            event: {
+                id: milestone.id,
+                event: milestone.name,
+                flavor: milestone.description,
+                effects: milestone.effects ?? [],
+            },
+        };
+    }
+
+    private isDue(milestone: Milestone): boolean {
+        if (milestone.turn !== undefined && gameStateManager.turn < milestone.turn) return false;
+        return !milestone.condition || scenarioRulesEngine.evaluateCondition(milestone.condition, this.createMilestoneCard(milestone));
+    }
+
+    /**
+     * Los hitos no salen del mazo: la carta solo sirve para presentarlos y no cumple predicados de carta
+     */
+    private createMilestoneCard(milestone: Milestone): Card {
+        return { id: milestone.id, suit: 'none', rank: '', value: 0, imageFile: MILESTONE_CARD_IMAGE };
+    }
+
+    get progress(): { reached: number; total: number } {
+        return { reached: this.reached, total: this.milestones.length };
+    }
+
+    /**
+     * Nueva partida: la cronología vuelve al principio
+     */
+    reset() {
+        this.reached = 0;
+    }
+
+    serialize(): MilestoneSnapshot {
+        return { reached: this.reached };
+    }
+
+    restore(snapshot: MilestoneSnapshot) {
+        this.reached = Math.min(snapshot.reached, this.milestones.length);
+    }
+}
+
+export const milestoneSystem = new MilestoneSystem();
@@ -1,15 +1,25 @@
 // src/engine/NodeSystem.ts
 import { gameLogSystem } from './GameLogSystem';
 import { scenarioLoader } from './ScenarioLoader';
+import { gameEventBus } from './GameEventBus';
 import type { Reward, Node } from './types';
 
 class NodeSystem {
     private nodes: Node[] = [];
+    private damageModifier: (amount: number) => number = amount => amount;
 
     constructor() {
         // Defer loading until scenario is loaded
     }
 
+    /**
+     * Modificador del daño que reciben los nodos (eventos ambientales en juego).
+     * Lo registra EnvironmentSystem, que depende de este sistema.
+     */
+    setDamageModifier(modifier: (amount: number) => number) {
+        this.damageModifier = modifier;
+    }
+
     initialize() {
         this.loadNodes();
     }
@@ -47,7 +57,9 @@ class NodeSystem {
     dealDamage(id: string, amount: number) {
         const node = this.getNode(id);
         if (node) {
-            node.damage = Math.min(node.maxDamage, node.damage + amount);
+            const previousDamage = node.damage;
+            const wasCollapsed = node.isCollapsed;
+            node.damage = Math.min(node.maxDamage, node.damage + this.damageModifier(amount));
             if (node.damage >= node.maxDamage) {
                 this.updateNodeStatus(id, 'corrupted');
             } else if (node.damage > 0) {
@@ -55,18 +67,30 @@ class NodeSystem {
             } else {
                 this.updateNodeStatus(id, 'stable');
             }
+
+            gameEventBus.publish('NodeDamaged', {
+                nodeId: id,
+                amount: node.damage - previousDamage,
+                damage: node.damage,
+                maxDamage: node.maxDamage,
+            });
+            if (node.isCollapsed && !wasCollapsed) {
+                gameEventBus.publish('NodeCollapsed', { nodeId: id });
+            }
         }
     }
 
     repairNode(id: string, repairAmount: number) {
         const node = this.getNode(id);
         if (node && node.damage > 0) {
+            const previousDamage = node.damage;
             node.damage = Math.max(0, node.damage - repairAmount);
             if (node.damage === 0) {
                 this.updateNodeStatus(id, 'stable');
             } else {
                 this.updateNodeStatus(id, 'unstable');
             }
+            gameEventBus.publish('NodeRepaired', { nodeId: id, amount: previousDamage - node.damage, damage: node.damage });
         }
     }
 
@@ -76,6 +100,14 @@ class NodeSystem {
             .map(node => node.reward);
     }
 
+    serialize(): Node[] {
+        return this.nodes.map(node => ({ ...node, reward: { ...node.reward } }));
+    }
+
+    restore(nodes: Node[]) {
+        this.nodes = nodes.map(node => ({ ...node, reward: { ...node.reward } }));
+    }
+
     get allNodes(): Node[] {
         return this.nodes;
     }
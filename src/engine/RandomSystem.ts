@@ -0,0 +1,95 @@
+// src/engine/RandomSystem.ts
+
+export interface RandomSnapshot {
+    seed: number;
+    state: number;
+}
+
+/**
+ * Generador aleatorio con semilla para todo el motor de juego.
+ * Todas las decisiones aleatorias de reglas (barajar, alucinaciones, ataques
+ * especiales del Eco, objetivos al azar) deben pasar por aquí para que una
+ * partida pueda reproducirse exactamente a partir de su semilla.
+ * Los efectos puramente visuales o de sonido pueden seguir usando Math.random.
+ */
+class RandomSystem {
+    private _seed: number;
+    private state: number;
+
+    constructor() {
+        this._seed = this.generateSeed();
+        this.state = this._seed;
+    }
+
+    get seed() { return this._seed; }
+
+    /**
+     * Reinicia el generador con una semilla; si no se indica se genera una nueva.
+     * @returns La semilla en uso
+     */
+    setSeed(seed?: number): number {
+        this._seed = seed === undefined ? this.generateSeed() : seed >>> 0;
+        this.state = this._seed;
+        console.log(`🎲 RandomSystem: Semilla establecida en ${this._seed}`);
+        return this._seed;
+    }
+
+    /**
+     * Devuelve un número en [0, 1) (algoritmo mulberry32)
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Devuelve un entero en [0, max)
+     */
+    nextInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    /**
+     * Devuelve true con la probabilidad indicada
+     */
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * Elige un elemento al azar de una lista
+     */
+    pick<T>(items: readonly T[]): T | undefined {
+        if (items.length === 0) return undefined;
+        return items[this.nextInt(items.length)];
+    }
+
+    /**
+     * Baraja una lista en el lugar (Fisher-Yates)
+     */
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = this.nextInt(i + 1);
+            [items[i], items[j]] = [items[j], items[i]];
+        }
+        return items;
+    }
+
+    serialize(): RandomSnapshot {
+        return { seed: this._seed, state: this.state };
+    }
+
+    restore(snapshot: RandomSnapshot) {
+        this._seed = snapshot.seed >>> 0;
+        this.state = snapshot.state >>> 0;
+    }
+
+    private generateSeed(): number {
+        return (Date.now() ^ Math.floor(Math.random() * 0xFFFFFFFF)) >>> 0;
+    }
+}
+
+export const randomSystem = new RandomSystem();
@@ -0,0 +1,190 @@
+// src/engine/ReplayPlayer.ts
+
+/**
+ * Reproductor de repeticiones.
+ * Reinicia la partida con la semilla y el capítulo grabados y vuelve a
+ * ejecutar cada comando del jugador sobre TurnManager en el mismo turno
+ * en que se hizo, con controles de reproducción, pausa, paso por turno y velocidad.
+ */
+
+import { turnManager } from './TurnManager';
+import { gameStateManager, GamePhase } from './GameStateManager';
+import { chapterManager } from './ChapterManager';
+import { gameLogSystem } from './GameLogSystem';
+import { gameClock } from './GameClock';
+import { choiceSystem } from './ChoiceSystem';
+import type { RecordedAction, ReplayRecording } from './ActionRecorder';
+
+export type ReplayStatus = 'idle' | 'playing' | 'paused' | 'finished';
+
+const ACTION_DELAY_MS = 800; // Pausa entre acciones a velocidad 1x
+const POLL_DELAY_MS = 100;   // Espera mientras el motor avanza fases por su cuenta
+
+class ReplayPlayer {
+    private recording: ReplayRecording | null = null;
+    private cursor = 0;
+    private _status: ReplayStatus = 'idle';
+    private _speed = 1;
+    private stepping = false;
+    private taskId: number | null = null;
+    private listeners: (() => void)[] = [];
+
+    get status() { return this._status; }
+    get speed() { return this._speed; }
+    get isActive() { return this._status !== 'idle'; }
+    get progress() {
+        return { current: this.cursor, total: this.recording?.actions.length ?? 0 };
+    }
+    get currentRecording() { return this.recording; }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    /**
+     * Prepara la partida de la grabación: selecciona el capítulo y arranca con la semilla.
+     * El reparto inicial (turnManager.completeGameStart) lo hace quien muestra el tablero.
+     */
+    async start(recording: ReplayRecording): Promise<boolean> {
+        this.stop();
+        this.recording = recording;
+        this.cursor = 0;
+
+        if (recording.chapterId && chapterManager.currentChapterConfig?.id !== recording.chapterId) {
+            const selected = await chapterManager.selectChapter(recording.chapterId);
+            if (!selected) {
+                console.error(`❌ ReplayPlayer: No se pudo seleccionar el capítulo ${recording.chapterId}`);
+                this.recording = null;
+                return false;
+            }
+        }
+
+        await turnManager.startGame(recording.scenarioId, { seed: recording.seed, record: false });
+        gameLogSystem.addMessage(`🎥 Repetición: semilla ${recording.seed}, ${recording.actions.length} acciones.`, 'system', 'info');
+
+        this._status = 'paused';
+        this.notify();
+        return true;
+    }
+
+    play() {
+        if (this._status !== 'paused') return;
+        this._status = 'playing';
+        this.notify();
+        this.scheduleTick(0);
+    }
+
+    pause() {
+        if (this._status !== 'playing') return;
+        this.clearTimer();
+        this.stepping = false;
+        this._status = 'paused';
+        this.notify();
+    }
+
+    /**
+     * Reproduce hasta el final del turno actual del jugador y vuelve a pausar
+     */
+    stepTurn() {
+        if (this._status !== 'paused') return;
+        this.stepping = true;
+        this.play();
+    }
+
+    setSpeed(speed: number) {
+        this._speed = Math.max(0.25, speed);
+        this.notify();
+    }
+
+    stop() {
+        this.clearTimer();
+        this.stepping = false;
+        this._status = 'idle';
+        this.notify();
+    }
+
+    private clearTimer() {
+        if (this.taskId !== null) {
+            gameClock.cancel(this.taskId);
+            this.taskId = null;
+        }
+    }
+
+    // Las esperas van por el reloj del juego: se congelan con la pausa y siguen su velocidad
+    private scheduleTick(delay: number) {
+        this.clearTimer();
+        this.taskId = gameClock.schedule(() => this.tick(), delay);
+    }
+
+    private tick() {
+        this.taskId = null;
+        if (this._status !== 'playing' || !this.recording) return;
+
+        if (gameStateManager.isGameOver || this.cursor >= this.recording.actions.length) {
+            this.finish();
+            return;
+        }
+
+        const action = this.recording.actions[this.cursor];
+
+        // La partida ya pasó el turno de la acción: la repetición se desincronizó
+        if (gameStateManager.turn > action.turn) {
+            console.warn(`⚠️ ReplayPlayer: Acción ${this.cursor} (${action.type}, turno ${action.turn}) omitida por desincronización`);
+            this.cursor++;
+            this.notify();
+            this.scheduleTick(0);
+            return;
+        }
+
+        if (!this.canExecute(action)) {
+            this.scheduleTick(POLL_DELAY_MS);
+            return;
+        }
+
+        this.execute(action);
+        this.cursor++;
+
+        if (action.type === 'endPlayerTurn' && this.stepping) {
+            this.stepping = false;
+            this._status = 'paused';
+            this.notify();
+            return;
+        }
+
+        this.notify();
+        this.scheduleTick(ACTION_DELAY_MS / this._speed);
+    }
+
+    private canExecute(action: RecordedAction): boolean {
+        if (gameStateManager.turn !== action.turn) return false;
+        if (action.type === 'dismissEvent') {
+            return turnManager.currentEventCard !== null;
+        }
+        if (action.type === 'choose') {
+            return choiceSystem.isPending;
+        }
+        return gameStateManager.phase === GamePhase.PLAYER_ACTION;
+    }
+
+    private execute(action: RecordedAction) {
+        console.log(`🎥 ReplayPlayer: Ejecutando acción ${this.cursor + 1}/${this.recording?.actions.length}: ${action.type}`);
+        turnManager.executeAction(action);
+    }
+
+    private finish() {
+        this.clearTimer();
+        this.stepping = false;
+        this._status = 'finished';
+        gameLogSystem.addMessage('🎥 Fin de la repetición.', 'system', 'info');
+        this.notify();
+    }
+}
+
+export const replayPlayer = new ReplayPlayer();
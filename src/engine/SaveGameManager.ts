@@ -0,0 +1,211 @@
+// src/engine/SaveGameManager.ts
+
+/**
+ * Guardado y reanudación de partidas en curso.
+ * Reúne el estado serializado de cada sistema del motor en una única
+ * instantánea versionada y la persiste a través de LocalStorageManager.
+ */
+
+import { gameStateManager, GamePhase } from './GameStateManager';
+import type { GameStateSnapshot } from './GameStateManager';
+import { deckManager } from './DeckManager';
+import type { DeckSnapshot } from './DeckManager';
+import { nodeSystem } from './NodeSystem';
+import { hallucinationSystem } from './HallucinationSystem';
+import { ecoAI } from './EcoAI';
+import type { EcoAISnapshot } from './EcoAI';
+import { scoreSystem } from './ScoreSystem';
+import type { ScoreSnapshot } from './ScoreSystem';
+import { chapterManager } from './ChapterManager';
+import { scenarioLoader } from './ScenarioLoader';
+import { randomSystem } from './RandomSystem';
+import type { RandomSnapshot } from './RandomSystem';
+import { statusEffectSystem } from './StatusEffectSystem';
+import type { StatusSnapshot } from './StatusEffectSystem';
+import { ecoDefenseSystem } from './EcoDefenseSystem';
+import { triggerSystem } from './TriggerSystem';
+import type { TriggerSnapshot } from './TriggerSystem';
+import { milestoneSystem } from './MilestoneSystem';
+import type { MilestoneSnapshot } from './MilestoneSystem';
+import { environmentSystem } from './EnvironmentSystem';
+import type { EnvironmentSnapshot } from './EnvironmentSystem';
+import { scenarioEventsEngine } from './ScenarioEventsEngine';
+import type { EventOptionsSnapshot } from './ScenarioEventsEngine';
+import { choiceSystem } from './ChoiceSystem';
+import { localStorageManager } from './LocalStorageManager';
+import type { Node } from './types';
+
+export const SAVE_VERSION = 10;
+
+export interface GameSnapshot {
+    version: number;
+    savedAt: string;
+    scenarioId: string;
+    chapter: { chapterId: string | null; currentScore: number };
+    random: RandomSnapshot;
+    gameState: GameStateSnapshot;
+    decks: DeckSnapshot;
+    nodes: Node[];
+    hallucinations: { level: number };
+    eco: EcoAISnapshot;
+    score: ScoreSnapshot;
+    statuses: StatusSnapshot;
+    ecoDefense: { shield: number };
+    triggers: TriggerSnapshot;
+    milestones: MilestoneSnapshot;
+    environment: EnvironmentSnapshot;
+    eventOptions: EventOptionsSnapshot;
+}
+
+class SaveGameManager {
+    private unsubscribeAutosave: (() => void) | null = null;
+    private autosavePending = false;
+    private readyTurn: number | null = null; // Turno cuya fase de acción ya está preparada
+
+    /**
+     * Construye la instantánea completa del estado actual del motor
+     */
+    createSnapshot(): GameSnapshot {
+        return {
+            version: SAVE_VERSION,
+            savedAt: new Date().toISOString(),
+            scenarioId: scenarioLoader.scenarioId,
+            chapter: chapterManager.serialize(),
+            random: randomSystem.serialize(),
+            gameState: gameStateManager.serialize(),
+            decks: deckManager.serialize(),
+            nodes: nodeSystem.serialize(),
+            hallucinations: hallucinationSystem.serialize(),
+            eco: ecoAI.serialize(),
+            score: scoreSystem.serialize(),
+            statuses: statusEffectSystem.serialize(),
+            ecoDefense: ecoDefenseSystem.serialize(),
+            triggers: triggerSystem.serialize(),
+            milestones: milestoneSystem.serialize(),
+            environment: environmentSystem.serialize(),
+            eventOptions: scenarioEventsEngine.serialize(),
+        };
+    }
+
+    save() {
+        localStorageManager.saveGameSnapshot(this.createSnapshot());
+    }
+
+    hasSave(): boolean {
+        return this.loadSnapshot() !== null;
+    }
+
+    clearSave() {
+        localStorageManager.clearGameSnapshot();
+    }
+
+    /**
+     * Lee la instantánea guardada; descarta las de versiones incompatibles
+     */
+    loadSnapshot(): GameSnapshot | null {
+        const snapshot = localStorageManager.loadGameSnapshot<GameSnapshot>();
+        if (!snapshot) return null;
+
+        if (snapshot.version !== SAVE_VERSION) {
+            console.warn(`⚠️ SaveGameManager: Versión de guardado ${snapshot.version} incompatible (esperada ${SAVE_VERSION})`);
+            this.clearSave();
+            return null;
+        }
+        return snapshot;
+    }
+
+    /**
+     * Restaura el motor completo desde una instantánea.
+     * Carga primero el capítulo y el escenario, y luego aplica el estado de cada sistema.
+     */
+    async restoreSnapshot(snapshot: GameSnapshot): Promise<boolean> {
+        try {
+            const chapterRestored = await chapterManager.restore(snapshot.chapter);
+            if (!chapterRestored) {
+                console.error(`❌ SaveGameManager: No se pudo restaurar el capítulo ${snapshot.chapter.chapterId}`);
+                return false;
+            }
+            await scenarioLoader.load(snapshot.scenarioId);
+
+            this.restoreSystems(snapshot);
+
+            console.log(`✅ SaveGameManager: Partida restaurada (turno ${snapshot.gameState.turn}, guardada ${snapshot.savedAt})`);
+            return true;
+        } catch (error) {
+            console.error('❌ SaveGameManager: Error restaurando partida:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Aplica el estado de cada sistema sin recargar capítulo ni escenario
+     * (partida en curso del mismo escenario, p. ej. al deshacer una acción)
+     */
+    restoreSystems(snapshot: GameSnapshot) {
+        randomSystem.restore(snapshot.random);
+        deckManager.restore(snapshot.decks);
+        nodeSystem.restore(snapshot.nodes);
+        hallucinationSystem.restore(snapshot.hallucinations);
+        ecoAI.restore(snapshot.eco);
+        scoreSystem.restore(snapshot.score);
+        statusEffectSystem.restore(snapshot.statuses);
+        // Justo antes del estado: los umbrales de PV y COR se toman del estado restaurado
+        triggerSystem.restore(snapshot.triggers);
+        milestoneSystem.restore(snapshot.milestones);
+        environmentSystem.restore(snapshot.environment);
+        scenarioEventsEngine.restore(snapshot.eventOptions);
+        gameStateManager.restore(snapshot.gameState);
+        // Tras restaurar la vida: un cambio de fase al restaurar recargaría el escudo
+        ecoDefenseSystem.restore(snapshot.ecoDefense);
+    }
+
+    /**
+     * Guarda automáticamente durante la fase de acción del jugador,
+     * que es el único punto estable del turno, y borra el guardado al terminar la partida.
+     */
+    enableAutosave() {
+        // Una partida nueva o reanudada aún no ha preparado su fase de acción
+        this.readyTurn = null;
+        if (this.unsubscribeAutosave) return;
+        this.unsubscribeAutosave = gameStateManager.subscribe(() => this.scheduleAutosave());
+    }
+
+    disableAutosave() {
+        this.unsubscribeAutosave?.();
+        this.unsubscribeAutosave = null;
+    }
+
+    /**
+     * TurnManager avisa cuando la fase de acción del turno ya restableció los PA y
+     * anunció la intención del Eco; hasta entonces no se autoguarda. Guarda en el
+     * acto para recoger las opciones de evento antes de que se ofrezcan.
+     */
+    markActionPhaseReady() {
+        this.readyTurn = gameStateManager.turn;
+        if (this.unsubscribeAutosave) this.autosave();
+    }
+
+    private scheduleAutosave() {
+        if (this.autosavePending) return;
+        this.autosavePending = true;
+
+        // Agrupar todos los cambios del mismo bloque síncrono en un único guardado
+        queueMicrotask(() => {
+            this.autosavePending = false;
+            this.autosave();
+        });
+    }
+
+    private autosave() {
+        if (gameStateManager.isGameOver) {
+            if (localStorageManager.hasGameSnapshot()) this.clearSave();
+        } else if (gameStateManager.phase === GamePhase.PLAYER_ACTION
+            && this.readyTurn === gameStateManager.turn
+            && !choiceSystem.isPending) {
+            // Una elección pendiente no se puede guardar a medias
+            this.save();
+        }
+    }
+}
+
+export const saveGameManager = new SaveGameManager();
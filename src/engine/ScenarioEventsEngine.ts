@@ -1,10 +1,32 @@
 // src/engine/ScenarioEventsEngine.ts
 
-import type { Card, DynamicEvent, RuleEffect } from './types';
+import type { Card, DynamicEvent, EventOption, PersistentEventConfig } from './types';
 import { scenarioRulesEngine } from './ScenarioRulesEngine';
+import { gameStateManager } from './GameStateManager';
+import { gameLogSystem } from './GameLogSystem';
+import { choiceSystem } from './ChoiceSystem';
+import { legalActionSystem } from './LegalActionSystem';
+import { scoreSystem } from './ScoreSystem';
+
+const MIN_EVENT_OPTIONS = 2;
+const MAX_EVENT_OPTIONS = 4;
+
+interface PendingEventOptions {
+    event: DynamicEvent;
+    card: Card;
+}
+
+// Eventos con opciones revelados este turno que aún no se han respondido
+export interface PendingEventOptionsSnapshot {
+    eventId: string;
+    card: Card;
+}
+
+export type EventOptionsSnapshot = PendingEventOptionsSnapshot[];
 
 class ScenarioEventsEngine {
     private currentEvents: DynamicEvent[] = [];
+    private pendingOptions: PendingEventOptions[] = []; // Se eligen al comenzar la fase de acción
 
     /**
      * Carga los eventos desde el archivo JSON del escenario
@@ -12,6 +34,53 @@ class ScenarioEventsEngine {
     loadEvents(events: DynamicEvent[]) {
         this.currentEvents = events;
         console.log('📅 ScenarioEventsEngine: Eventos cargados', events.length, 'eventos');
+
+        events.forEach(event => {
+            this.validateEvent(event)
+                .forEach(error => console.error(`❌ ScenarioEventsEngine: Efecto inválido en ${error}`));
+        });
+    }
+
+    private validateEvent(event: DynamicEvent): string[] {
+        const eventId = `evento ${event.id}`;
+        const errors = scenarioRulesEngine.validateEffects(event.effects, eventId);
+        if (event.persistent) {
+            errors.push(...this.validatePersistent(event.persistent, eventId));
+        }
+        if (!event.options) return errors;
+
+        if (event.options.length < MIN_EVENT_OPTIONS || event.options.length > MAX_EVENT_OPTIONS) {
+            errors.push(`${eventId}: Debe tener entre ${MIN_EVENT_OPTIONS} y ${MAX_EVENT_OPTIONS} opciones`);
+        }
+        event.options.forEach((option, index) => {
+            const optionId = `${eventId}, opción ${index} (${option.label})`;
+            errors.push(
+                ...scenarioRulesEngine.validateCost(option.cost ?? 0, optionId),
+                ...scenarioRulesEngine.validateEffects(option.effects ?? [], optionId),
+            );
+        });
+        return errors;
+    }
+
+    private validatePersistent(config: PersistentEventConfig, eventId: string): string[] {
+        const errors = [
+            ...scenarioRulesEngine.validateEffects(config.perTurn ?? [], `${eventId}, por turno`),
+            ...scenarioRulesEngine.validateEffects(config.onEnd ?? [], `${eventId}, al terminar`),
+        ];
+        if (config.duration !== undefined && (!Number.isInteger(config.duration) || config.duration < 1)) {
+            errors.push(`${eventId}: duration debe ser un entero mayor que 0`);
+        }
+        if (config.duration === undefined && !config.endCondition && !config.clear) {
+            errors.push(`${eventId}: Un evento persistente necesita duration, endCondition o clear para terminar`);
+        }
+        if (config.clear) {
+            const clearId = `${eventId}, despeje (${config.clear.label})`;
+            errors.push(
+                ...scenarioRulesEngine.validateCost(config.clear.cost, clearId),
+                ...scenarioRulesEngine.validateEffects(config.clear.effects ?? [], clearId),
+            );
+        }
+        return errors;
     }
 
     /**
@@ -33,21 +102,102 @@ class ScenarioEventsEngine {
 
         console.log(`📅 ScenarioEventsEngine: Procesando evento "${event.event}" para carta ${card.id}`);
 
-        // Aplicar todos los efectos del evento
-        event.effects.forEach(effect => {
-            this.applyEventEffect(effect, card);
-        });
+        // Los eventos usan el mismo sistema de efectos que las reglas
+        scenarioRulesEngine.applyRuleEffects(event.effects, card, `evento ${event.id}`);
 
         return { event, processed: true };
     }
 
     /**
-     * Aplica un efecto de evento usando el motor de reglas
+     * Deja pendientes las opciones de un evento revelado hasta la fase de acción
+     */
+    queueOptions(event: DynamicEvent, card: Card) {
+        this.pendingOptions.push({ event, card });
+    }
+
+    /**
+     * Pide al jugador que elija una de las opciones de cada evento pendiente. Se
+     * ofrecen al comenzar la fase de acción para que los costes en PA salgan del
+     * turno, y siguen pendientes (y en el guardado) hasta que se responden.
+     */
+    offerPendingOptions() {
+        this.pendingOptions.forEach(pending => this.offerOptions(pending));
+    }
+
+    private offerOptions(pending: PendingEventOptions) {
+        const { event, card } = pending;
+        const options = event.options ?? [];
+        choiceSystem.request({
+            kind: 'option',
+            title: event.event,
+            description: event.flavor,
+            options: options.map((option, index) => ({
+                id: String(index),
+                label: option.label,
+                description: this.describeOption(option),
+                disabledReason: this.getBlockedReason(option, card),
+            })),
+            count: 1,
+            eventId: event.id,
+        }, ([optionId]) => {
+            this.pendingOptions = this.pendingOptions.filter(p => p !== pending);
+            this.resolveOption(event, optionId === undefined ? undefined : options[Number(optionId)], card);
+        });
+    }
+
+    private describeOption(option: EventOption): string | undefined {
+        const cost = option.cost !== undefined ? `Coste: ${legalActionSystem.describeCost(option.cost)}` : '';
+        return [option.description, cost].filter(Boolean).join(' · ') || undefined;
+    }
+
+    /**
+     * Motivo por el que no se puede elegir una opción (undefined si se puede)
      */
-    private applyEventEffect(effect: RuleEffect, card: Card) {
-        // Delegar al motor de reglas para aplicar el efecto
-        // Como los eventos usan el mismo sistema de efectos que las reglas
-        scenarioRulesEngine.applyRuleEffect(effect, card);
+    private getBlockedReason(option: EventOption, card: Card): string | undefined {
+        if (option.condition && !scenarioRulesEngine.evaluateCondition(option.condition, card)) {
+            return 'No cumples los requisitos de esta opción.';
+        }
+        return option.cost !== undefined
+            ? scenarioRulesEngine.getUnpayableReason(option.cost, gameStateManager.hand)
+            : undefined;
+    }
+
+    private resolveOption(event: DynamicEvent, option: EventOption | undefined, card: Card) {
+        if (!option) {
+            gameLogSystem.addMessage(`${event.event}: no puedes permitirte ninguna opción.`, 'system', 'info');
+            scoreSystem.scoreEventHandling(event.event, 'failure');
+            return;
+        }
+
+        console.log(`📅 ScenarioEventsEngine: Opción "${option.label}" en evento ${event.id}`);
+        gameLogSystem.addMessage(`${event.event}: ${option.label}.`, 'player', 'special');
+
+        const paid = scenarioRulesEngine.payCost(option.cost ?? 0, () => {
+            scenarioRulesEngine.applyRuleEffects(option.effects ?? [], card, `evento ${event.id}`);
+            option.setFlags?.forEach(flag => gameStateManager.setStoryFlag(flag));
+            scoreSystem.scoreEventHandling(event.event, option.outcome ?? 'success');
+        });
+        if (!paid) {
+            scoreSystem.scoreEventHandling(event.event, 'failure');
+        }
+    }
+
+    /**
+     * Nueva partida: no queda ninguna opción por elegir
+     */
+    resetPendingOptions() {
+        this.pendingOptions = [];
+    }
+
+    serialize(): EventOptionsSnapshot {
+        return this.pendingOptions.map(pending => ({ eventId: pending.event.id, card: pending.card }));
+    }
+
+    restore(snapshot: EventOptionsSnapshot) {
+        this.pendingOptions = snapshot.flatMap(saved => {
+            const event = this.getEventByCardId(saved.eventId);
+            return event?.options ? [{ event, card: saved.card }] : [];
+        });
     }
 
     /**
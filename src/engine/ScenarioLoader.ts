@@ -1,8 +1,11 @@
 // src/engine/ScenarioLoader.ts
 
-import type { Event, GameRules, DynamicEvent } from './types';
+import type { Event, GameRules, DynamicEvent, Milestone, StatusDefinition } from './types';
 import { scenarioRulesEngine } from './ScenarioRulesEngine';
+import { triggerSystem } from './TriggerSystem';
+import { statusEffectSystem } from './StatusEffectSystem';
 import { scenarioEventsEngine } from './ScenarioEventsEngine';
+import { milestoneSystem } from './MilestoneSystem';
 
 // Define types for the scenario files
 interface ScenarioConfig {
@@ -50,13 +53,16 @@ interface FlavorText {
 
 
 class ScenarioLoader {
+    public scenarioId: string = 'default';
     public config!: ScenarioConfig;
     public nodes!: ScenarioNode[];
     public eco!: EcoConfig;
     public events!: Event[];
     public flavor!: FlavorText;
     public rules?: GameRules;
+    public statuses: StatusDefinition[] = [];
     public dynamicEvents?: DynamicEvent[];
+    public milestones: Milestone[] = [];
 
     async load(scenarioId: string) {
         try {
@@ -65,6 +71,15 @@ class ScenarioLoader {
             this.eco = (await import(`../scenarios/${scenarioId}/eco.json`)).default;
             this.events = (await import(`../scenarios/${scenarioId}/events.json`)).default;
             this.flavor = (await import(`../scenarios/${scenarioId}/flavor.json`)).default;
+            this.scenarioId = scenarioId;
+            
+            // Cargar estados propios del escenario antes que las reglas, que los validan
+            try {
+                this.statuses = (await import(`../scenarios/${scenarioId}/statuses.json`)).default;
+            } catch {
+                this.statuses = [];
+            }
+            statusEffectSystem.loadDefinitions(this.statuses);
             
             // Cargar reglas dinámicas si existen
             try {
@@ -72,10 +87,12 @@ class ScenarioLoader {
                 if (this.rules) {
                     scenarioRulesEngine.loadRules(this.rules);
                 }
+                triggerSystem.load(this.rules?.triggers ?? []);
                 console.log(`📏 Reglas dinámicas cargadas para ${scenarioId}`);
             } catch (rulesError) {
                 console.warn(`⚠️ No se encontraron reglas dinámicas para ${scenarioId}, usando sistema hardcoded`);
                 this.rules = undefined;
+                triggerSystem.load([]);
             }
             
             // Los events.json ya están cargados arriba, pero ahora también los cargamos como eventos dinámicos
@@ -92,6 +109,14 @@ class ScenarioLoader {
                 console.warn(`⚠️ Los eventos no tienen formato dinámico, usando sistema original`);
             }
             
+            // Cronología de hitos de la historia, si el escenario la tiene
+            try {
+                this.milestones = (await import(`../scenarios/${scenarioId}/events-crono.json`)).default;
+            } catch {
+                this.milestones = [];
+            }
+            milestoneSystem.load(this.milestones);
+            
             console.log(`Scenario ${scenarioId} loaded successfully.`);
         } catch (error) {
             console.error(`Failed to load scenario: ${scenarioId}`, error);
@@ -1,13 +1,62 @@
 // src/engine/ScenarioRulesEngine.ts
 
-import type { Card, GameRules, RuleEffect, RuleCondition, Node } from './types';
+import type { ActionCost, Card, CardTransform, ComboRule, EffectProperty, GameRules, PlayerActionRule, RuleCost, RuleEffect, RuleEffectType, RuleCondition, Node, StatType, Suit, TriggerRule } from './types';
+import { COMBO_PATTERNS, EFFECT_PROPERTIES, RULE_EFFECT_TYPES, SUIT_NAMES, TRIGGER_HOOKS } from './types';
 import { gameStateManager } from './GameStateManager';
 import { deckManager } from './DeckManager';
 import { gameLogSystem } from './GameLogSystem';
 import { nodeSystem } from './NodeSystem';
+import { randomSystem } from './RandomSystem';
+import { hallucinationSystem } from './HallucinationSystem';
+import { expressionEvaluator, ExpressionError } from './ExpressionEvaluator';
+import type { ExpressionVariables } from './ExpressionEvaluator';
+import { gameEventBus } from './GameEventBus';
+import { statusEffectSystem } from './StatusEffectSystem';
+import { ecoDefenseSystem } from './EcoDefenseSystem';
+import { choiceSystem } from './ChoiceSystem';
+import type { Combatant, EffectSource } from './GameEventBus';
+
+const LIFESTEAL_RATIO = 0.5; // Fracción del daño a la vida que recupera el atacante
+const TRANSFORM_SUITS: Suit[] = ['Spades', 'Hearts', 'Clubs', 'Diamonds'];
+const MAX_STATS: StatType[] = ['PV', 'COR', 'PA', 'HP'];
+const CONTROL_EFFECTS: RuleEffectType[] = ['IF', 'CHANCE', 'REPEAT'];
+const MAX_REPEAT = 10; // Tope de repeticiones de REPEAT, por si una fórmula se dispara
+const RANK_ORDER = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const DEFAULT_COMBO_SIZE = 3; // Cartas de RUN y SAME_SUIT si la regla no indica size
+
+// Resultado de jugar una carta con las reglas: sin regla se recurre al sistema hardcoded
+export type PlayerCardResult = 'applied' | 'unpayable' | 'no-rule';
+
+// Daño estimado de un ataque del Eco (previewEcoAttack)
+export interface EcoAttackPreview {
+    pv: number;
+    cor: number;
+    node: number;
+}
 
 class ScenarioRulesEngine {
     private currentRules: GameRules | null = null;
+    private currentSource: EffectSource = 'PLAYER'; // Quién origina los efectos que se están aplicando
+    private currentRuleId = ''; // Regla o evento en curso, para los mensajes de error
+    private ecoAttackPower = 1; // Multiplicador del daño de los ataques del Eco (fuente ECO)
+    private ecoPhaseProvider: () => string = () => '';
+    private ecoHandReceiver: (cards: Card[]) => void = () => {};
+
+    /**
+     * Fuente de la fase actual del Eco para las condiciones ecoPhase.
+     * La registra EcoStateSystem (importarlo aquí crearía un ciclo con GameStateManager).
+     */
+    setEcoPhaseProvider(provider: () => string) {
+        this.ecoPhaseProvider = provider;
+    }
+
+    /**
+     * Destino de las cartas que roba el Eco con ECO_DRAW.
+     * Lo registra EcoAI por el mismo motivo que el proveedor de fase.
+     */
+    setEcoHandReceiver(receiver: (cards: Card[]) => void) {
+        this.ecoHandReceiver = receiver;
+    }
 
     /**
      * Carga las reglas desde un archivo JSON del escenario
@@ -15,54 +64,241 @@ class ScenarioRulesEngine {
     loadRules(rules: GameRules) {
         this.currentRules = rules;
         console.log('🎲 ScenarioRulesEngine: Reglas cargadas', rules);
+
+        const errors = this.validateRules(rules);
+        errors.forEach(error => console.error(`❌ ScenarioRulesEngine: Efecto inválido en ${error}`));
     }
 
     /**
      * Aplica el efecto de una carta jugada por el jugador
      */
-    applyPlayerCardEffect(card: Card): boolean {
+    applyPlayerCardEffect(card: Card): PlayerCardResult {
         if (!this.currentRules) {
             console.warn('⚠️ ScenarioRulesEngine: No hay reglas cargadas, usando sistema hardcoded');
-            return false;
+            return 'no-rule';
         }
 
-        // Buscar la primera regla que coincida (más específicas primero)
-        const matchingRule = this.currentRules.playerActions.find(rule => 
-            this.matchesCondition(card, rule.condition)
-        );
+        const matchingRule = this.findPlayerActionRule(card);
 
         if (!matchingRule) {
             console.warn(`⚠️ ScenarioRulesEngine: No se encontró regla para carta ${card.rank} ${card.suit}`);
-            return false;
+            return 'no-rule';
         }
 
-        // Verificar costo de PA
-        if (gameStateManager.pa < matchingRule.cost) {
-            gameLogSystem.addMessage("No hay suficientes Puntos de Acción.", 'system', 'info');
-            return false;
+        const ruleId = this.getRuleId(matchingRule, 'playerActions', this.currentRules.playerActions.indexOf(matchingRule));
+        const paid = this.payCost(matchingRule.cost, () => {
+            console.log(`🎲 ScenarioRulesEngine: Aplicando regla ${matchingRule.id || 'sin ID'} para ${card.rank} ${card.suit}`);
+
+            // Aplicar todos los efectos de la regla
+            this.currentSource = 'PLAYER';
+            this.currentRuleId = ruleId;
+            this.applyEffects(matchingRule.effects, card);
+        });
+        return paid ? 'applied' : 'unpayable';
+    }
+
+    /**
+     * Regla de acción del jugador que dispara una carta (la primera que coincide, más específicas primero)
+     */
+    findPlayerActionRule(card: Card): PlayerActionRule | undefined {
+        return this.currentRules?.playerActions.find(rule =>
+            this.matchesCondition(card, rule.condition)
+        );
+    }
+
+    /**
+     * Combinación de rules.json que forman exactamente estas cartas (la primera que coincide)
+     */
+    findComboRule(cards: Card[]): ComboRule | undefined {
+        return this.currentRules?.combos?.find(rule => this.matchesCombo(rule, cards));
+    }
+
+    /**
+     * Aplica una combinación de cartas jugada por el jugador
+     */
+    applyComboEffect(rule: ComboRule, cards: Card[]): boolean {
+        const comboId = this.getRuleId(rule, 'combos', this.currentRules?.combos?.indexOf(rule) ?? -1);
+        return this.payCost(rule.cost, () => {
+            console.log(`🎲 ScenarioRulesEngine: Aplicando combo ${rule.name} con ${cards.map(card => card.id).join(', ')}`);
+
+            this.currentSource = 'PLAYER';
+            this.currentRuleId = comboId;
+            this.applyEffects(rule.effects, this.createComboCard(cards));
+        });
+    }
+
+    /**
+     * Coste de una regla con todos sus recursos (un número es un coste solo en PA)
+     */
+    normalizeCost(cost: RuleCost): Required<ActionCost> {
+        const structured = typeof cost === 'number' ? { pa: cost } : cost;
+        return {
+            pa: this.toCount(structured.pa ?? 0),
+            cor: this.toCount(structured.cor ?? 0),
+            pv: this.toCount(structured.pv ?? 0),
+            discard: this.toCount(structured.discard ?? 0),
+            discardSuit: structured.discardSuit?.toLowerCase() ?? '',
+        };
+    }
+
+    /**
+     * Motivo por el que el jugador no puede pagar un coste (undefined si puede)
+     * @param discardableCards cartas de la mano con las que pagar los descartes
+     */
+    getUnpayableReason(cost: RuleCost, discardableCards: Card[]): string | undefined {
+        const { pa, cor, pv, discard, discardSuit } = this.normalizeCost(cost);
+        if (gameStateManager.pa < pa) {
+            return `Necesitas ${pa} PA (tienes ${gameStateManager.pa}).`;
+        }
+        if (cor > 0 && gameStateManager.sanity <= cor) {
+            return `Necesitas más de ${cor} COR (tienes ${gameStateManager.sanity}).`;
         }
+        if (pv > 0 && gameStateManager.pv <= pv) {
+            return `Necesitas más de ${pv} PV (tienes ${gameStateManager.pv}).`;
+        }
+        if (this.filterDiscardSuit(discardableCards, discardSuit).length < discard) {
+            const suitText = discardSuit ? ` de ${SUIT_NAMES[discardSuit] ?? discardSuit}` : '';
+            return `Necesitas otras ${discard} carta(s)${suitText} en la mano para descartar.`;
+        }
+        return undefined;
+    }
 
-        // Gastar PA
-        const apSpent = gameStateManager.spendActionPoints(matchingRule.cost);
-        if (!apSpent) {
-            gameLogSystem.addMessage("No se pueden gastar los Puntos de Acción.", 'system', 'info');
+    /**
+     * Paga un coste entero o nada: si falla una parte, se devuelve lo ya pagado.
+     * Los descartes los elige el jugador y onPaid espera a que se hayan hecho.
+     * @returns false si no se ha podido pagar
+     */
+    payCost(cost: RuleCost, onPaid: () => void): boolean {
+        const reason = this.getUnpayableReason(cost, gameStateManager.hand);
+        if (reason) {
+            gameLogSystem.addMessage(reason, 'system', 'info');
             return false;
         }
 
-        console.log(`🎲 ScenarioRulesEngine: Aplicando regla ${matchingRule.id || 'sin ID'} para ${card.rank} ${card.suit}`);
+        const { pa, cor, pv, discard, discardSuit } = this.normalizeCost(cost);
+        const before = { pa: gameStateManager.pa, sanity: gameStateManager.sanity, pv: gameStateManager.pv };
+        const paid = gameStateManager.spendActionPoints(pa)
+            && this.spendPlayerStat('COR', cor)
+            && this.spendPlayerStat('PV', pv);
+        if (!paid) {
+            gameStateManager.pa = before.pa;
+            gameStateManager.sanity = before.sanity;
+            gameStateManager.pv = before.pv;
+            gameLogSystem.addMessage('No se puede pagar el coste de la acción.', 'system', 'info');
+            return false;
+        }
 
-        // Aplicar todos los efectos de la regla
-        matchingRule.effects.forEach(effect => {
-            this.applyEffect(effect, card);
+        if (discard === 0) {
+            onPaid();
+            return true;
+        }
+        choiceSystem.request({
+            kind: 'cards',
+            title: `Descarta ${discard} carta(s) para pagar`,
+            description: 'Elige qué cartas de tu mano pagan el coste.',
+            options: this.filterDiscardSuit(gameStateManager.hand, discardSuit)
+                .map(card => ({ id: card.id, label: this.describeCard(card), card })),
+            count: discard,
+            harmful: true,
+        }, cardIds => {
+            this.discardFromHand(gameStateManager.hand.filter(card => cardIds.includes(card.id)));
+            onPaid();
         });
+        return true;
+    }
 
+    private filterDiscardSuit(cards: Card[], suit: string): Card[] {
+        return suit ? cards.filter(card => card.suit.toLowerCase() === suit) : cards;
+    }
+
+    /**
+     * Gasta COR o PV como coste; no es daño, así que no lo modifican los estados
+     */
+    private spendPlayerStat(stat: 'COR' | 'PV', amount: number): boolean {
+        if (amount === 0) return true;
+        const current = stat === 'COR' ? gameStateManager.sanity : gameStateManager.pv;
+        if (current <= amount) return false;
+
+        if (stat === 'COR') {
+            gameStateManager.sanity = current - amount;
+        } else {
+            gameStateManager.pv = current - amount;
+        }
+        gameLogSystem.addMessage(`Pagas ${amount} ${stat}.`, 'player', 'damage');
         return true;
     }
 
+    private matchesCombo(rule: ComboRule, cards: Card[]): boolean {
+        if (cards.some(card => 'isHallucination' in card)) return false;
+
+        const suit = rule.suit?.toLowerCase();
+        if (suit !== undefined && cards.some(card => card.suit.toLowerCase() !== suit)) return false;
+
+        const sameRank = cards.every(card => card.rank === cards[0].rank);
+        switch (rule.pattern) {
+            case 'PAIR':
+            case 'THREE_OF_A_KIND':
+                return cards.length === this.getComboSize(rule) && sameRank;
+            case 'RUN':
+                return cards.length === this.getComboSize(rule) && this.isRun(cards);
+            case 'SAME_SUIT':
+                return cards.length === this.getComboSize(rule) && cards.every(card => card.suit === cards[0].suit);
+            default:
+                return false;
+        }
+    }
+
+    private getComboSize(rule: ComboRule): number {
+        switch (rule.pattern) {
+            case 'PAIR':
+                return 2;
+            case 'THREE_OF_A_KIND':
+                return 3;
+            default:
+                return rule.size ?? DEFAULT_COMBO_SIZE;
+        }
+    }
+
+    /**
+     * Número de cartas de cada combinación de rules.json, sin repetir
+     */
+    get comboSizes(): number[] {
+        const sizes = (this.currentRules?.combos ?? []).map(rule => this.getComboSize(rule));
+        return [...new Set(sizes)].sort((a, b) => a - b);
+    }
+
+    private isRun(cards: Card[]): boolean {
+        const positions = cards.map(card => RANK_ORDER.indexOf(card.rank));
+        if (positions.includes(-1)) return false;
+
+        const consecutive = (values: number[]) => {
+            const sorted = [...values].sort((a, b) => a - b);
+            return sorted.every((value, index) => index === 0 || value === sorted[index - 1] + 1);
+        };
+        // El As también cuenta como el rango más bajo (A-2-3)
+        const ace = RANK_ORDER.length - 1;
+        return consecutive(positions) || consecutive(positions.map(position => position === ace ? -1 : position));
+    }
+
     /**
-     * Aplica el efecto de una carta usada por el Eco en ataque
+     * Carta que representa la combinación en sus efectos y condiciones:
+     * suma los valores y conserva el palo y el rango si son comunes
      */
-    applyEcoAttackEffect(card: Card) {
+    private createComboCard(cards: Card[]): Card {
+        return {
+            id: cards.map(card => card.id).join('+'),
+            suit: cards.every(card => card.suit === cards[0].suit) ? cards[0].suit : 'none',
+            rank: cards.every(card => card.rank === cards[0].rank) ? cards[0].rank : '',
+            value: cards.reduce((sum, card) => sum + card.value, 0),
+            imageFile: cards[0].imageFile,
+        };
+    }
+
+    /**
+     * Aplica el efecto de una carta usada por el Eco en ataque.
+     * power multiplica el daño al jugador (attackPower de la fase).
+     */
+    applyEcoAttackEffect(card: Card, power: number = 1) {
         if (!this.currentRules) {
             console.warn('⚠️ ScenarioRulesEngine: No hay reglas cargadas para ataque del Eco');
             return;
@@ -81,46 +317,197 @@ class ScenarioRulesEngine {
         console.log(`🎲 ScenarioRulesEngine: Eco ataca con ${card.rank} ${card.suit}`);
 
         // Aplicar todos los efectos del ataque
-        matchingRule.effects.forEach(effect => {
-            this.applyEffect(effect, card);
+        this.currentSource = 'ECO';
+        this.currentRuleId = this.getRuleId(matchingRule, 'ecoAttacks', this.currentRules.ecoAttacks.indexOf(matchingRule));
+        this.ecoAttackPower = power;
+        this.applyEffects(matchingRule.effects, card);
+    }
+
+    /**
+     * Daño que haría el Eco atacando con la carta, sin aplicarlo (para elegir qué carta jugar).
+     * Las ramas IF se evalúan con el estado actual y CHANCE cuenta según su probabilidad.
+     * Al daño al jugador se le aplican power y los estados alterados como en applyDamageEffect.
+     */
+    previewEcoAttack(card: Card, power: number = 1): EcoAttackPreview {
+        const preview: EcoAttackPreview = { pv: 0, cor: 0, node: 0 };
+        const matchingRule = this.currentRules?.ecoAttacks.find(rule => this.matchesCondition(card, rule.condition));
+        if (matchingRule) {
+            this.accumulatePreview(matchingRule.effects, card, 1, power, preview);
+        }
+        return preview;
+    }
+
+    private accumulatePreview(effects: RuleEffect[], card: Card, weight: number, power: number, preview: EcoAttackPreview) {
+        effects.forEach(effect => {
+            switch (effect.type) {
+                case 'DEAL_DAMAGE': {
+                    if (effect.target !== 'PLAYER') break;
+                    const damage = statusEffectSystem.previewDamage(Math.round(this.resolveValue(effect.value, card) * power), 'ECO', 'PLAYER');
+                    if (effect.targetStat === 'PV') preview.pv += damage * weight;
+                    if (effect.targetStat === 'COR') preview.cor += damage * weight;
+                    break;
+                }
+                case 'DAMAGE_NODE':
+                    preview.node += this.resolveValue(effect.value, card) * weight;
+                    break;
+                case 'IF': {
+                    const matches = this.matchesCondition(card, effect.condition ?? {});
+                    this.accumulatePreview((matches ? effect.then : effect.else) ?? [], card, weight, power, preview);
+                    break;
+                }
+                case 'CHANCE': {
+                    const probability = Math.min(1, Math.max(0, this.resolveValue(effect.probability, card)));
+                    this.accumulatePreview(effect.effects ?? [], card, weight * probability, power, preview);
+                    this.accumulatePreview(effect.else ?? [], card, weight * (1 - probability), power, preview);
+                    break;
+                }
+                case 'REPEAT': {
+                    const times = Math.min(MAX_REPEAT, this.toCount(this.resolveValue(effect.value, card)));
+                    this.accumulatePreview(effect.effects ?? [], card, weight * times, power, preview);
+                    break;
+                }
+            }
         });
     }
 
     /**
-     * Verifica si una carta coincide con una condición de regla
+     * Evalúa una condición fuera de las reglas de cartas (disparadores).
+     * Los predicados de carta se comprueban sobre la carta que provoca el disparo.
+     */
+    evaluateCondition(condition: RuleCondition, card: Card): boolean {
+        return this.matchesCondition(card, condition);
+    }
+
+    /**
+     * Verifica si una carta coincide con una condición de regla.
+     * Todos los campos presentes deben cumplirse; all/any/not se evalúan recursivamente.
      */
     private matchesCondition(card: Card, condition: RuleCondition): boolean {
-        // Coincidencia por ID específico (más prioritario)
-        if (condition.id && condition.id === card.id) {
-            return true;
+        return this.matchesCard(card, condition)
+            && this.matchesGameState(condition)
+            && (!condition.all || condition.all.every(sub => this.matchesCondition(card, sub)))
+            && (!condition.any || condition.any.some(sub => this.matchesCondition(card, sub)))
+            && (!condition.not || !this.matchesCondition(card, condition.not));
+    }
+
+    private matchesCard(card: Card, condition: RuleCondition): boolean {
+        // ID específico
+        if (condition.id !== undefined && condition.id !== card.id) {
+            return false;
         }
 
-        // Coincidencia por palo (normalizado)
-        if (condition.suit && condition.suit.toLowerCase() === card.suit.toLowerCase()) {
-            return true;
+        // Palo (normalizado)
+        if (condition.suit !== undefined && condition.suit.toLowerCase() !== card.suit.toLowerCase()) {
+            return false;
         }
 
-        // Coincidencia por color
-        if (condition.color) {
+        // Color
+        if (condition.color !== undefined) {
             const cardColor = (card.suit === 'Hearts' || card.suit === 'Diamonds') ? 'red' : 'black';
-            if (condition.color === cardColor) {
-                return true;
+            if (condition.color !== cardColor) {
+                return false;
             }
         }
 
-        // Coincidencia por rango
-        if (condition.rank && condition.rank === card.rank) {
-            return true;
+        // Rango
+        if (condition.rank !== undefined && condition.rank !== card.rank) {
+            return false;
+        }
+
+        // Valor numérico
+        if (condition.valueMin !== undefined && card.value < condition.valueMin) {
+            return false;
+        }
+        if (condition.valueMax !== undefined && card.value > condition.valueMax) {
+            return false;
+        }
+
+        return true;
+    }
+
+    private matchesGameState(condition: RuleCondition): boolean {
+        if (condition.ecoPhase !== undefined) {
+            const phases = Array.isArray(condition.ecoPhase) ? condition.ecoPhase : [condition.ecoPhase];
+            if (!phases.includes(this.ecoPhaseProvider())) {
+                return false;
+            }
+        }
+
+        if (condition.turnMin !== undefined && gameStateManager.turn < condition.turnMin) {
+            return false;
+        }
+        if (condition.turnMax !== undefined && gameStateManager.turn > condition.turnMax) {
+            return false;
+        }
+
+        if (condition.playerPvBelow !== undefined && gameStateManager.pv >= condition.playerPvBelow) {
+            return false;
+        }
+        if (condition.playerCorBelow !== undefined && gameStateManager.sanity >= condition.playerCorBelow) {
+            return false;
+        }
+
+        if (condition.nodeCollapsed !== undefined) {
+            const collapsed = condition.nodeCollapsed.toUpperCase() === 'ANY'
+                ? nodeSystem.allNodes.some(node => node.isCollapsed)
+                : nodeSystem.getNode(condition.nodeCollapsed)?.isCollapsed === true;
+            if (!collapsed) {
+                return false;
+            }
+        }
+        if (condition.nodesCollapsedMin !== undefined
+            && nodeSystem.allNodes.filter(node => node.isCollapsed).length < condition.nodesCollapsedMin) {
+            return false;
+        }
+
+        if (condition.ecoHpBelow !== undefined && gameStateManager.ecoHp >= condition.ecoHpBelow) {
+            return false;
+        }
+
+        if (condition.storyFlag !== undefined) {
+            const flags = Array.isArray(condition.storyFlag) ? condition.storyFlag : [condition.storyFlag];
+            if (!flags.every(flag => gameStateManager.hasStoryFlag(flag))) {
+                return false;
+            }
         }
 
-        return false;
+        return true;
+    }
+
+    /**
+     * Aplica una lista de efectos en orden. Si uno pide una elección al jugador,
+     * los siguientes esperan a la respuesta.
+     */
+    private applyEffects(effects: RuleEffect[], card: Card, onComplete: () => void = () => {}) {
+        const source = this.currentSource;
+        const ruleId = this.currentRuleId;
+
+        const applyFrom = (index: number) => {
+            if (index >= effects.length) {
+                onComplete();
+                return;
+            }
+            // La respuesta puede llegar después de que otra regla cambie el contexto
+            this.currentSource = source;
+            this.currentRuleId = ruleId;
+            this.applyEffect(effects[index], card, () => applyFrom(index + 1));
+        };
+        applyFrom(0);
     }
 
     /**
-     * Aplica un efecto individual
+     * Aplica un efecto individual y llama a done cuando ha terminado de resolverse
      */
-    private applyEffect(effect: RuleEffect, card: Card) {
-        const resolvedValue = this.resolveValue(effect.value, card);
+    private applyEffect(effect: RuleEffect, card: Card, done: () => void) {
+        if (CONTROL_EFFECTS.includes(effect.type)) {
+            this.applyControlEffect(effect, card, done);
+            return;
+        }
+
+        // APPLY_STATUS y CHOOSE_EFFECT sin valor valen 1 (una acumulación, una opción)
+        const resolvedValue = (effect.type === 'APPLY_STATUS' || effect.type === 'CHOOSE_EFFECT') && effect.value === undefined
+            ? 1
+            : this.resolveValue(effect.value, card);
         
         switch (effect.type) {
             case 'DEAL_DAMAGE':
@@ -136,143 +523,359 @@ class ScenarioRulesEngine {
                 break;
             
             case 'DISCARD_CARDS':
-                this.applyDiscardCardsEffect(effect, resolvedValue);
-                break;
+                this.applyDiscardCardsEffect(effect, resolvedValue, done);
+                return;
             
             case 'APPLY_STATUS':
-                this.applyStatusEffect(effect);
+                this.applyStatusEffect(effect, resolvedValue);
                 break;
             
             case 'REPAIR_NODE':
-                this.applyRepairNodeEffect(effect, resolvedValue);
-                break;
+                this.applyRepairNodeEffect(effect, resolvedValue, done);
+                return;
             
             case 'DAMAGE_NODE':
-                this.applyDamageNodeEffect(effect, resolvedValue);
+                this.applyDamageNodeEffect(effect, resolvedValue, done);
+                return;
+            
+            case 'CHOOSE_EFFECT':
+                this.applyChooseEffect(effect, resolvedValue, card, done);
+                return;
+            
+            case 'SHUFFLE_DISCARD_INTO_DECK':
+                this.applyShuffleDiscardEffect(effect);
+                break;
+            
+            case 'PEEK_DECK':
+                this.applyPeekDeckEffect(this.toCount(resolvedValue), done);
+                return;
+            
+            case 'RETURN_FROM_DISCARD':
+                this.applyReturnFromDiscardEffect(effect, this.toCount(resolvedValue), done);
+                return;
+            
+            case 'TRANSFORM_CARD':
+                this.applyTransformCardEffect(effect, this.toCount(resolvedValue), done);
+                return;
+            
+            case 'GAIN_PA':
+                this.applyGainPaEffect(this.toCount(resolvedValue));
+                break;
+            
+            case 'MODIFY_MAX_STAT':
+                this.applyModifyMaxStatEffect(effect, Math.trunc(resolvedValue));
+                break;
+            
+            case 'ADD_HALLUCINATION':
+            case 'REMOVE_HALLUCINATION':
+                this.applyHallucinationEffect(effect, this.toCount(resolvedValue));
+                break;
+            
+            case 'SKIP_ECO_TURN':
+                this.applySkipEcoTurnEffect(this.toCount(resolvedValue));
+                break;
+            
+            case 'HEAL_ECO':
+                this.applyHealEcoEffect(resolvedValue);
+                break;
+            
+            case 'ECO_DRAW':
+                this.applyEcoDrawEffect(this.toCount(resolvedValue));
                 break;
             
             default:
                 console.warn(`⚠️ ScenarioRulesEngine: Tipo de efecto desconocido: ${effect.type}`);
         }
+        done();
     }
 
     /**
-     * Resuelve un valor que puede ser número, fórmula o undefined
-     * Implementa logging completo para debug de fórmulas
+     * Resuelve valores que pueden ser números o expresiones ("CARD_VALUE + NODES_COLLAPSED * 2")
      */
     private resolveValue(value: number | string | undefined, card: Card): number {
-        const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
-        const logPrefix = `[${timestamp}] 🧮 ScenarioRulesEngine.resolveValue`;
-        
-        console.log(`${logPrefix}: Processing value`, { value, cardValue: card.value, cardId: card.id });
-        
-        // Manejar valores undefined o null
         if (value === undefined || value === null) {
-            console.warn(`${logPrefix}: ⚠️ Value is undefined/null, defaulting to 0`);
+            console.warn(`⚠️ ScenarioRulesEngine: Valor vacío en '${this.currentRuleId}', usando 0`);
             return 0;
         }
-        
-        // Valores numéricos directos
+
         if (typeof value === 'number') {
-            console.log(`${logPrefix}: Direct numeric value: ${value}`);
             return value;
         }
-        
-        // Validar que es string antes de usar replace
+
         if (typeof value !== 'string') {
-            console.warn(`${logPrefix}: ⚠️ Value is not string or number:`, typeof value, 'defaulting to 0');
+            console.warn(`⚠️ ScenarioRulesEngine: Valor de tipo ${typeof value} en '${this.currentRuleId}', usando 0`);
             return 0;
         }
 
-        console.log(`${logPrefix}: Processing formula: "${value}"`);
-        
-        // Reemplazar variables en fórmulas
-        let formula = value.replace(/CARD_VALUE/g, card.value.toString());
-        console.log(`${logPrefix}: Formula after variable replacement: "${formula}"`);
-
-        // Evaluar fórmulas matemáticas básicas de forma más segura
         try {
-            const result = this.evaluateMathExpression(formula);
-            console.log(`${logPrefix}: ✅ Formula evaluated successfully: ${result}`);
+            const result = expressionEvaluator.evaluate(value, this.getExpressionVariables(card));
+            console.log(`🧮 ScenarioRulesEngine: "${value}" = ${result} (${this.currentRuleId})`);
             return result;
         } catch (error) {
-            console.error(`${logPrefix}: ❌ Error evaluating formula "${value}":`, error);
+            const message = error instanceof ExpressionError ? error.message : String(error);
+            console.error(`❌ ScenarioRulesEngine: Error en la expresión de '${this.currentRuleId}': ${message}`);
             return 0;
         }
     }
 
     /**
-     * Evalúa expresiones matemáticas básicas de forma más segura
+     * Valores actuales de las variables disponibles en las expresiones
+     */
+    private getExpressionVariables(card: Card): ExpressionVariables {
+        const nodes = nodeSystem.allNodes;
+        const collapsed = nodes.filter(node => node.isCollapsed).length;
+        return {
+            CARD_VALUE: card.value,
+            PLAYER_PV: gameStateManager.pv,
+            PLAYER_COR: gameStateManager.sanity,
+            ECO_HP: gameStateManager.ecoHp,
+            ECO_HP_PERCENT: gameStateManager.maxEcoHp > 0 ? (gameStateManager.ecoHp / gameStateManager.maxEcoHp) * 100 : 0,
+            TURN: gameStateManager.turn,
+            HAND_SIZE: gameStateManager.hand.length,
+            DECK_SIZE: deckManager.deckSize,
+            NODES_INTACT: nodes.length - collapsed,
+            NODES_COLLAPSED: collapsed,
+            HALLUCINATION_LEVEL: hallucinationSystem.level,
+        };
+    }
+
+    /**
+     * Valida las expresiones y los estados de una lista de efectos sin aplicarlos
+     * @returns un mensaje por cada efecto inválido, con el id de su regla o evento
      */
-    private evaluateMathExpression(expression: string): number {
-        // Manejar floor() específicamente
-        const floorMatch = expression.match(/floor\(([^)]+)\)/);
-        if (floorMatch) {
-            const innerExpr = floorMatch[1];
-            const innerValue = this.evaluateSimpleMath(innerExpr);
-            return Math.floor(innerValue);
+    validateEffects(effects: RuleEffect[], sourceId: string): string[] {
+        return effects.flatMap((effect, index) => {
+            const location = `${sourceId}, efecto ${index + 1} (${effect.type})`;
+            if (!RULE_EFFECT_TYPES.includes(effect.type)) {
+                return [`${location}: Tipo de efecto desconocido '${effect.type}'`];
+            }
+            if (CONTROL_EFFECTS.includes(effect.type)) {
+                return this.validateControlEffect(effect, location);
+            }
+            if (effect.type === 'MODIFY_MAX_STAT' && (!effect.targetStat || !MAX_STATS.includes(effect.targetStat))) {
+                return [`${location}: targetStat debe ser uno de ${MAX_STATS.join(', ')}`];
+            }
+            if (effect.type === 'TRANSFORM_CARD') {
+                const transform = effect.transform;
+                if (!transform || (transform.suit === undefined && transform.rank === undefined && transform.value === undefined)) {
+                    return [`${location}: TRANSFORM_CARD necesita transform con suit, rank o value`];
+                }
+                if (transform.suit !== undefined && !TRANSFORM_SUITS.includes(transform.suit)) {
+                    return [`${location}: Palo desconocido '${transform.suit}'. Disponibles: ${TRANSFORM_SUITS.join(', ')}`];
+                }
+            }
+            if (effect.type === 'CHOOSE_EFFECT') {
+                if (!effect.options?.length) {
+                    return [`${location}: CHOOSE_EFFECT necesita al menos una opción`];
+                }
+                return effect.options.flatMap((option, optionIndex) =>
+                    this.validateEffects(option.effects ?? [], `${location}, opción ${optionIndex + 1}`));
+            }
+            if (effect.type === 'APPLY_STATUS' && effect.status && !statusEffectSystem.getDefinition(effect.status)) {
+                return [`${location}: Estado desconocido '${effect.status}'`];
+            }
+            const unknownProperty = effect.properties?.find(property => !EFFECT_PROPERTIES.includes(property));
+            if (unknownProperty) {
+                return [`${location}: Propiedad desconocida '${unknownProperty}'. Disponibles: ${EFFECT_PROPERTIES.join(', ')}`];
+            }
+            if (typeof effect.value !== 'string') return [];
+            const error = expressionEvaluator.validate(effect.value);
+            return error ? [`${location}: ${error}`] : [];
+        });
+    }
+
+    /**
+     * Valida un nodo de control y, recursivamente, sus listas de efectos
+     */
+    private validateControlEffect(effect: RuleEffect, location: string): string[] {
+        const errors: string[] = [];
+        const validateExpression = (value: number | string | undefined, field: string) => {
+            const error = typeof value === 'string' ? expressionEvaluator.validate(value) : null;
+            if (error) errors.push(`${location}: ${field}: ${error}`);
+        };
+
+        switch (effect.type) {
+            case 'IF':
+                if (!effect.condition) {
+                    errors.push(`${location}: IF necesita condition`);
+                }
+                if (!effect.then?.length && !effect.else?.length) {
+                    errors.push(`${location}: IF necesita efectos en then o else`);
+                }
+                break;
+            case 'CHANCE':
+                if (effect.probability === undefined) {
+                    errors.push(`${location}: CHANCE necesita probability`);
+                } else if (typeof effect.probability === 'number' && (effect.probability < 0 || effect.probability > 1)) {
+                    errors.push(`${location}: probability debe estar entre 0 y 1`);
+                }
+                validateExpression(effect.probability, 'probability');
+                if (!effect.effects?.length && !effect.else?.length) {
+                    errors.push(`${location}: CHANCE necesita efectos en effects o else`);
+                }
+                break;
+            case 'REPEAT':
+                if (effect.value === undefined) {
+                    errors.push(`${location}: REPEAT necesita value (número de repeticiones)`);
+                }
+                validateExpression(effect.value, 'value');
+                if (!effect.effects?.length) {
+                    errors.push(`${location}: REPEAT necesita effects`);
+                }
+                break;
         }
-        
-        return this.evaluateSimpleMath(expression);
+
+        return [
+            ...errors,
+            ...this.validateEffects(effect.then ?? [], `${location}, then`),
+            ...this.validateEffects(effect.else ?? [], `${location}, else`),
+            ...this.validateEffects(effect.effects ?? [], `${location}, effects`),
+        ];
     }
 
     /**
-     * Evalúa operaciones matemáticas básicas
+     * Valida todos los efectos de un conjunto de reglas
      */
-    private evaluateSimpleMath(expression: string): number {
-        // Remover espacios y validar que solo contenga números y operadores básicos
-        const clean = expression.replace(/\s/g, '');
-        if (!/^[0-9+\-*/().]+$/.test(clean)) {
-            throw new Error(`Expresión matemática no válida: ${expression}`);
+    validateRules(rules: GameRules): string[] {
+        return [
+            ...rules.playerActions.flatMap((rule, index) => {
+                const ruleId = this.getRuleId(rule, 'playerActions', index);
+                return [...this.validateCost(rule.cost, ruleId), ...this.validateEffects(rule.effects, ruleId)];
+            }),
+            ...rules.ecoAttacks.flatMap((rule, index) =>
+                this.validateEffects(rule.effects, this.getRuleId(rule, 'ecoAttacks', index))),
+            ...(rules.triggers ?? []).flatMap((trigger, index) =>
+                this.validateTrigger(trigger, this.getRuleId(trigger, 'triggers', index))),
+            ...(rules.combos ?? []).flatMap((combo, index) =>
+                this.validateCombo(combo, this.getRuleId(combo, 'combos', index))),
+        ];
+    }
+
+    private validateCombo(combo: ComboRule, comboId: string): string[] {
+        if (!COMBO_PATTERNS.includes(combo.pattern)) {
+            return [`${comboId}: Patrón desconocido '${combo.pattern}'. Disponibles: ${COMBO_PATTERNS.join(', ')}`];
         }
-        
-        // Solo para casos simples, usar Function constructor (más seguro que eval)
-        return new Function('return ' + clean)();
+        const errors: string[] = [];
+        if (combo.size !== undefined && combo.size < 2) {
+            errors.push(`${comboId}: size debe ser al menos 2`);
+        }
+        return [...errors, ...this.validateCost(combo.cost, comboId), ...this.validateEffects(combo.effects ?? [], comboId)];
+    }
+
+    validateCost(cost: RuleCost, ruleId: string): string[] {
+        const structured = typeof cost === 'number' ? { pa: cost } : cost ?? {};
+        const resources = ['pa', 'cor', 'pv', 'discard', 'discardSuit'];
+        return Object.entries(structured).flatMap(([resource, amount]: [string, unknown]) => {
+            if (!resources.includes(resource)) {
+                return [`${ruleId}: Recurso de coste desconocido '${resource}'. Disponibles: ${resources.join(', ')}`];
+            }
+            if (resource === 'discardSuit') {
+                return typeof amount === 'string' && amount.toLowerCase() in SUIT_NAMES
+                    ? []
+                    : [`${ruleId}: discardSuit debe ser uno de ${Object.keys(SUIT_NAMES).join(', ')}`];
+            }
+            return typeof amount === 'number' && amount >= 0
+                ? []
+                : [`${ruleId}: El coste en ${resource} debe ser un número no negativo`];
+        });
+    }
+
+    private validateTrigger(trigger: TriggerRule, triggerId: string): string[] {
+        if (!TRIGGER_HOOKS.includes(trigger.hook)) {
+            return [`${triggerId}: Hook desconocido '${trigger.hook}'. Disponibles: ${TRIGGER_HOOKS.join(', ')}`];
+        }
+        const errors: string[] = [];
+        if ((trigger.hook === 'PV_BELOW' || trigger.hook === 'COR_BELOW') && trigger.threshold === undefined) {
+            errors.push(`${triggerId}: ${trigger.hook} necesita threshold`);
+        }
+        return [...errors, ...this.validateEffects(trigger.effects ?? [], triggerId)];
+    }
+
+    /**
+     * Identificador legible de una regla: su id, o su posición si no tiene
+     */
+    private getRuleId(rule: { id?: string }, list: 'playerActions' | 'ecoAttacks' | 'triggers' | 'combos', index: number): string {
+        return rule.id ?? `${list}[${index}]`;
     }
 
     /**
      * Aplica efectos de daño
      */
-    private applyDamageEffect(effect: RuleEffect, value: number) {
+    private applyDamageEffect(effect: RuleEffect, rawValue: number) {
+        const properties = effect.properties ?? [];
+        const value = this.currentSource === 'ECO' ? Math.round(rawValue * this.ecoAttackPower) : rawValue;
+
         switch (effect.target) {
             case 'PLAYER':
                 if (effect.targetStat === 'PV') {
-                    gameStateManager.dealDamageToPlayer(value);
-                    gameLogSystem.addMessage(`Pierdes ${value} PV.`, 'system', 'info');
+                    const { amount, critical } = statusEffectSystem.modifyDamage(value, this.currentSource, 'PLAYER');
+                    gameStateManager.dealDamageToPlayer(amount);
+                    this.publishDamage('PLAYER', 'PV', amount, critical, gameStateManager.pv);
+                    this.applyDamageProperties(properties, amount, Math.floor(amount / 2));
                 } else if (effect.targetStat === 'COR') {
-                    gameStateManager.dealSanityDamage(value);
-                    gameLogSystem.addMessage(`Pierdes ${value} COR.`, 'system', 'info');
+                    const { amount, critical } = statusEffectSystem.modifyDamage(value, this.currentSource, 'PLAYER');
+                    gameStateManager.dealSanityDamage(amount);
+                    this.publishDamage('PLAYER', 'COR', amount, critical, gameStateManager.sanity);
+                    this.applyDamageProperties(properties, amount, Math.floor(amount / 2));
                 }
                 break;
             
             case 'ECO':
                 if (effect.targetStat === 'HP') {
-                    let damage = value;
-                    // Aplicar modificadores como exposed
-                    if (gameStateManager.isEcoExposed) {
-                        damage *= 2;
-                        gameLogSystem.addMessage("¡El Eco está expuesto! Daño duplicado.", 'system', 'info');
-                        gameStateManager.isEcoExposed = false;
-                    }
-                    gameStateManager.dealDamageToEco(damage);
-                    gameLogSystem.addMessage(`Infliges ${damage} de daño al Eco.`, 'player', 'attack');
+                    // Modificadores de estado (expuesto, debilitado...) y después las defensas de la fase
+                    const { amount, critical } = statusEffectSystem.modifyDamage(value, this.currentSource, 'ECO');
+                    const defense = ecoDefenseSystem.absorb(amount, properties);
+                    gameStateManager.dealDamageToEco(defense.damage);
+                    this.publishDamage('ECO', 'HP', defense.damage, critical, gameStateManager.ecoHp);
+                    this.applyDamageProperties(properties, defense.damage, defense.mitigated);
                 }
                 break;
         }
     }
 
+    /**
+     * LIFESTEAL cura al atacante con parte del daño infligido;
+     * SPLASH_NODES lleva el daño rebotado a un nodo al azar
+     */
+    private applyDamageProperties(properties: EffectProperty[], dealt: number, splash: number) {
+        if (properties.includes('LIFESTEAL') && dealt > 0) {
+            const stolen = Math.floor(dealt * LIFESTEAL_RATIO);
+            if (this.currentSource === 'PLAYER' && stolen > 0) {
+                const oldPV = gameStateManager.pv;
+                gameStateManager.pv = Math.min(gameStateManager.maxPV, oldPV + statusEffectSystem.modifyHealing(stolen, 'PLAYER'));
+                gameLogSystem.addMessage(`Absorbes ${gameStateManager.pv - oldPV} PV del golpe.`, 'player', 'heal');
+            } else if (this.currentSource === 'ECO' && stolen > 0) {
+                const oldHp = gameStateManager.ecoHp;
+                gameStateManager.ecoHp = Math.min(gameStateManager.maxEcoHp, oldHp + statusEffectSystem.modifyHealing(stolen, 'ECO'));
+                gameLogSystem.addMessage(`El Eco se alimenta del golpe y recupera ${gameStateManager.ecoHp - oldHp} HP.`, 'eco', 'heal');
+            }
+        }
+
+        if (properties.includes('SPLASH_NODES') && splash > 0) {
+            this.damageRandomNode(splash);
+        }
+    }
+
+    /**
+     * Publica el daño aplicado para puntuación, log y estadísticas
+     */
+    private publishDamage(target: Combatant, stat: StatType, amount: number, critical: boolean, remaining: number) {
+        gameEventBus.publish('DamageDealt', { source: this.currentSource, target, stat, amount, critical, remaining });
+    }
+
     /**
      * Aplica efectos de curación
      */
     private applyHealEffect(effect: RuleEffect, value: number) {
         if (effect.target === 'PLAYER') {
+            const healing = statusEffectSystem.modifyHealing(value, 'PLAYER');
             if (effect.targetStat === 'PV') {
                 const oldPV = gameStateManager.pv;
-                gameStateManager.pv = Math.min(20, oldPV + value); // Asumiendo máximo 20
+                gameStateManager.pv = Math.min(gameStateManager.maxPV, oldPV + healing);
                 gameLogSystem.addMessage(`Recuperas ${gameStateManager.pv - oldPV} PV.`, 'player', 'heal');
             } else if (effect.targetStat === 'COR') {
-                gameStateManager.recoverSanity(value);
-                gameLogSystem.addMessage(`Recuperas ${value} COR.`, 'player', 'heal');
+                gameStateManager.recoverSanity(healing);
+                gameLogSystem.addMessage(`Recuperas ${healing} COR.`, 'player', 'heal');
             }
         }
     }
@@ -293,73 +896,412 @@ class ScenarioRulesEngine {
     }
 
     /**
-     * Aplica efectos de descartar cartas
+     * Aplica efectos de descartar cartas (al azar, o elegidas por el jugador con targetSource CHOICE)
      */
-    private applyDiscardCardsEffect(effect: RuleEffect, value: number) {
-        if (effect.target === 'PLAYER') {
-            const hand = gameStateManager.hand;
-            const toDiscard = Math.min(value, hand.length);
-            
-            if (toDiscard > 0) {
-                // Descartar cartas al azar
-                const discarded = [];
-                for (let i = 0; i < toDiscard; i++) {
-                    const randomIndex = Math.floor(Math.random() * hand.length);
-                    const card = hand.splice(randomIndex, 1)[0];
-                    discarded.push(card);
-                }
-                
-                deckManager.discard(discarded);
-                gameStateManager.hand = hand;
-                gameLogSystem.addMessage(`Descartas ${discarded.length} carta(s).`, 'system', 'info');
-            }
+    private applyDiscardCardsEffect(effect: RuleEffect, value: number, done: () => void) {
+        const hand = gameStateManager.hand;
+        const toDiscard = Math.min(value, hand.length);
+        if (effect.target !== 'PLAYER' || toDiscard <= 0) {
+            done();
+            return;
         }
+
+        if (effect.targetSource === 'CHOICE') {
+            choiceSystem.request({
+                kind: 'cards',
+                title: `Descarta ${toDiscard} carta(s)`,
+                description: 'Elige qué cartas de tu mano vas a descartar.',
+                options: hand.map(card => ({ id: card.id, label: `${card.rank} de ${card.suit}`, card })),
+                count: toDiscard,
+                harmful: true,
+            }, cardIds => {
+                // Solo las que sigan en la mano cuando llega la respuesta
+                const discarded = gameStateManager.hand.filter(card => cardIds.includes(card.id));
+                this.discardFromHand(discarded);
+                done();
+            });
+            return;
+        }
+
+        // Descartar cartas al azar
+        const discarded = [];
+        for (let i = 0; i < toDiscard; i++) {
+            const randomIndex = randomSystem.nextInt(hand.length);
+            const card = hand.splice(randomIndex, 1)[0];
+            discarded.push(card);
+        }
+        this.discardFromHand(discarded);
+        done();
+    }
+
+    private discardFromHand(discarded: Card[]) {
+        if (discarded.length === 0) return;
+        deckManager.discard(discarded);
+        gameStateManager.hand = gameStateManager.hand.filter(card => !discarded.includes(card));
+        gameLogSystem.addMessage(`Descartas ${discarded.length} carta(s).`, 'system', 'info');
     }
 
     /**
      * Aplica efectos de estado
      */
-    private applyStatusEffect(effect: RuleEffect) {
-        if (effect.target === 'ECO' && effect.status === 'EXPOSED') {
-            gameStateManager.isEcoExposed = true;
-            gameLogSystem.addMessage("El Eco queda expuesto. El próximo ataque causará daño doble.", 'system', 'info');
+    private applyStatusEffect(effect: RuleEffect, stacks: number) {
+        if (effect.target !== 'PLAYER' && effect.target !== 'ECO') {
+            console.warn(`⚠️ ScenarioRulesEngine: APPLY_STATUS solo admite PLAYER o ECO como objetivo ('${this.currentRuleId}')`);
+            return;
+        }
+        if (!effect.status) {
+            console.warn(`⚠️ ScenarioRulesEngine: APPLY_STATUS sin estado en '${this.currentRuleId}'`);
+            return;
         }
+        statusEffectSystem.apply(effect.target, effect.status, effect.duration ?? 1, stacks, this.currentSource);
     }
 
     /**
-     * Aplica efectos de reparar nodos
+     * Aplica efectos de reparar nodos (al azar, o elegido por el jugador con target CHOICE)
      */
-    private applyRepairNodeEffect(_effect: RuleEffect, value: number) {
-        // Por ahora, reparar nodo al azar si es RANDOM o CHOICE
-        // En el futuro se podría implementar selección del jugador
+    private applyRepairNodeEffect(effect: RuleEffect, value: number, done: () => void) {
         const nodes = nodeSystem.allNodes.filter((node: Node) => node.damage > 0);
-        if (nodes.length > 0) {
-            const randomNode = nodes[Math.floor(Math.random() * nodes.length)];
-            const actualRepair = Math.min(value, randomNode.damage);
-            nodeSystem.repairNode(randomNode.id, actualRepair);
-            gameLogSystem.addMessage(`Reparas ${actualRepair} puntos de daño en ${randomNode.name}.`, 'player', 'info');
+        this.selectNode(effect, nodes, `Elige un nodo que reparar (${value})`, false, node => {
+            if (node) {
+                const actualRepair = Math.min(value, node.damage);
+                nodeSystem.repairNode(node.id, actualRepair);
+                gameLogSystem.addMessage(`Reparas ${actualRepair} puntos de daño en ${node.name}.`, 'player', 'info');
+            }
+            done();
+        });
+    }
+
+    /**
+     * Aplica efectos de dañar nodos (RANDOM, CHOICE para que el jugador elija cuál sacrificar, o targetNode)
+     */
+    private applyDamageNodeEffect(effect: RuleEffect, value: number, done: () => void) {
+        if (effect.target !== 'RANDOM' && effect.target !== 'CHOICE' && !effect.targetNode) {
+            done();
+            return;
         }
+        const nodes = nodeSystem.allNodes.filter((node: Node) => !node.isCollapsed);
+        this.selectNode(effect, nodes, `Elige el nodo que sufrirá ${value} de daño`, true, node => {
+            if (node) this.damageNode(node, value);
+            done();
+        });
+    }
+
+    private damageRandomNode(value: number) {
+        const node = randomSystem.pick(nodeSystem.allNodes.filter((node: Node) => !node.isCollapsed));
+        if (node) this.damageNode(node, value);
+    }
+
+    private damageNode(node: Node, value: number) {
+        nodeSystem.dealDamage(node.id, value);
+        gameLogSystem.addMessage(`${node.name} sufre ${value} puntos de daño.`, 'system', 'info');
     }
 
     /**
-     * Aplica efectos de dañar nodos
+     * Nodo objetivo de un efecto: lo elige el jugador si el objetivo es CHOICE, si no, al azar
      */
-    private applyDamageNodeEffect(effect: RuleEffect, value: number) {
-        if (effect.target === 'RANDOM') {
-            const nodes = nodeSystem.allNodes.filter((node: Node) => !node.isCollapsed);
-            if (nodes.length > 0) {
-                const randomNode = nodes[Math.floor(Math.random() * nodes.length)];
-                nodeSystem.dealDamage(randomNode.id, value);
-                gameLogSystem.addMessage(`${randomNode.name} sufre ${value} puntos de daño.`, 'system', 'info');
+    private selectNode(effect: RuleEffect, nodes: Node[], title: string, harmful: boolean, onSelected: (node: Node | undefined) => void) {
+        const targetNode = effect.targetNode?.toLowerCase();
+        if (targetNode) {
+            onSelected(nodes.find(node => node.id.toLowerCase() === targetNode));
+            return;
+        }
+        if (effect.target !== 'CHOICE') {
+            onSelected(randomSystem.pick(nodes));
+            return;
+        }
+        choiceSystem.request({
+            kind: 'node',
+            title,
+            options: nodes.map(node => ({
+                id: node.id,
+                label: node.name,
+                description: `Daño ${node.damage}/${node.maxDamage}`,
+                node,
+            })),
+            count: 1,
+            harmful,
+        }, ([nodeId]) => onSelected(nodes.find(node => node.id === nodeId)));
+    }
+
+    /**
+     * Nodos de control: deciden qué lista de efectos se aplica y cuántas veces.
+     * IF evalúa su condición con los mismos predicados que las reglas (sobre la carta
+     * que dispara el efecto), CHANCE tira el RNG de la partida y REPEAT evalúa value.
+     */
+    private applyControlEffect(effect: RuleEffect, card: Card, done: () => void) {
+        switch (effect.type) {
+            case 'IF': {
+                const matches = this.matchesCondition(card, effect.condition ?? {});
+                this.applyEffects((matches ? effect.then : effect.else) ?? [], card, done);
+                break;
             }
+            case 'CHANCE': {
+                const probability = this.resolveValue(effect.probability, card);
+                const success = randomSystem.chance(probability);
+                console.log(`🎲 ScenarioRulesEngine: CHANCE ${Math.round(probability * 100)}% ${success ? 'superada' : 'fallida'} (${this.currentRuleId})`);
+                this.applyEffects((success ? effect.effects : effect.else) ?? [], card, done);
+                break;
+            }
+            case 'REPEAT': {
+                const times = Math.min(MAX_REPEAT, this.toCount(this.resolveValue(effect.value, card)));
+                const body = effect.effects ?? [];
+                this.applyEffects(Array.from({ length: times }, () => body).flat(), card, done);
+                break;
+            }
+            default:
+                done();
         }
     }
 
     /**
-     * Método público para aplicar efectos (usado por ScenarioEventsEngine)
+     * El jugador elige entre varias listas de efectos y se aplican las elegidas
      */
-    public applyRuleEffect(effect: RuleEffect, card: Card) {
-        this.applyEffect(effect, card);
+    private applyChooseEffect(effect: RuleEffect, count: number, card: Card, done: () => void) {
+        const options = effect.options ?? [];
+        const source = this.currentSource;
+        const ruleId = this.currentRuleId;
+
+        choiceSystem.request({
+            kind: 'option',
+            title: count > 1 ? `Elige ${count} opciones` : 'Elige una opción',
+            options: options.map((option, index) => ({
+                id: String(index),
+                label: option.label,
+                description: option.description,
+            })),
+            count,
+        }, optionIds => {
+            this.currentSource = source;
+            this.currentRuleId = ruleId;
+            const effects = optionIds.flatMap(id => options[Number(id)].effects ?? []);
+            this.applyEffects(effects, card, done);
+        });
+    }
+
+    /**
+     * Cantidades de cartas, PA o turnos: enteros no negativos
+     */
+    private toCount(value: number): number {
+        return Math.max(0, Math.floor(value));
+    }
+
+    /**
+     * Publica un efecto resuelto para puntuación y estadísticas
+     */
+    private publishEffect(effect: RuleEffectType, amount: number) {
+        gameEventBus.publish('EffectApplied', { effect, source: this.currentSource, amount });
+    }
+
+    private describeCard(card: Card): string {
+        return 'isHallucination' in card ? 'Alucinación' : `${card.rank} de ${card.suit}`;
+    }
+
+    /**
+     * Cartas objetivo de un efecto: las elige el jugador con targetSource CHOICE;
+     * si no, se toman las que indique fallback
+     */
+    private selectCards(effect: RuleEffect, candidates: Card[], count: number, title: string,
+        fallback: () => Card[], onSelected: (cards: Card[]) => void) {
+        if (effect.targetSource !== 'CHOICE') {
+            onSelected(fallback());
+            return;
+        }
+        choiceSystem.request({
+            kind: 'cards',
+            title,
+            options: candidates.map((card, index) => ({ id: String(index), label: this.describeCard(card), card })),
+            count,
+        }, optionIds => onSelected(optionIds.map(id => candidates[Number(id)])));
+    }
+
+    /**
+     * Devuelve el descarte al mazo (del jugador, o del Eco con target ECO)
+     */
+    private applyShuffleDiscardEffect(effect: RuleEffect) {
+        if (effect.target === 'ECO') {
+            const count = deckManager.shuffleEcoDiscardIntoDeck();
+            gameLogSystem.addMessage(`El Eco baraja ${count} carta(s) de su descarte en su mazo.`, 'eco', 'info');
+            this.publishEffect('SHUFFLE_DISCARD_INTO_DECK', count);
+            return;
+        }
+        const count = deckManager.shuffleDiscardIntoDeck();
+        gameLogSystem.addMessage(`Barajas ${count} carta(s) del descarte en tu mazo.`, 'player', 'info');
+        this.publishEffect('SHUFFLE_DISCARD_INTO_DECK', count);
+    }
+
+    /**
+     * El jugador mira las cartas superiores de su mazo y elige el orden en que las robará
+     */
+    private applyPeekDeckEffect(count: number, done: () => void) {
+        const cards = deckManager.peekTop(count);
+        if (cards.length === 0) {
+            gameLogSystem.addMessage('No quedan cartas en el mazo que mirar.', 'system', 'info');
+            done();
+            return;
+        }
+
+        // Ver el mazo es información oculta: ya no se puede deshacer lo anterior
+        gameEventBus.publish('DeckRevealed', { source: 'PLAYER', count: cards.length });
+        choiceSystem.request({
+            kind: 'cards',
+            title: `Ordena las ${cards.length} cartas superiores del mazo`,
+            description: 'Elígelas en el orden en que quieres robarlas.',
+            options: cards.map((card, index) => ({ id: String(index), label: this.describeCard(card), card })),
+            count: cards.length,
+            ordered: true,
+        }, optionIds => {
+            deckManager.reorderTop(optionIds.map(id => cards[Number(id)]));
+            gameLogSystem.addMessage(`Miras ${cards.length} carta(s) de tu mazo y las reordenas.`, 'player', 'search');
+            this.publishEffect('PEEK_DECK', cards.length);
+            done();
+        });
+    }
+
+    /**
+     * Devuelve cartas del descarte a la mano: las elegidas con targetSource CHOICE o las últimas descartadas
+     */
+    private applyReturnFromDiscardEffect(effect: RuleEffect, count: number, done: () => void) {
+        const candidates = deckManager.getDiscardPile().filter(card => !('isHallucination' in card));
+        const toReturn = Math.min(count, candidates.length);
+        if (toReturn === 0) {
+            if (count > 0) gameLogSystem.addMessage('No hay cartas en el descarte que recuperar.', 'system', 'info');
+            done();
+            return;
+        }
+
+        this.selectCards(effect, candidates, toReturn, `Recupera ${toReturn} carta(s) del descarte`,
+            () => candidates.slice(-toReturn),
+            cards => {
+                const returned = deckManager.takeFromDiscard(cards);
+                gameStateManager.addCardsToHand(returned);
+                gameLogSystem.addMessage(`Recuperas ${returned.length} carta(s) del descarte.`, 'player', 'search');
+                this.publishEffect('RETURN_FROM_DISCARD', returned.length);
+                done();
+            });
+    }
+
+    /**
+     * Transforma cartas de la mano: las elegidas con targetSource CHOICE o al azar
+     */
+    private applyTransformCardEffect(effect: RuleEffect, count: number, done: () => void) {
+        const hand = gameStateManager.hand;
+        const toTransform = Math.min(count, hand.length);
+        if (!effect.transform || toTransform === 0) {
+            done();
+            return;
+        }
+        const transform = effect.transform;
+
+        this.selectCards(effect, hand, toTransform, `Elige ${toTransform} carta(s) que transformar`,
+            () => randomSystem.shuffle([...hand]).slice(0, toTransform),
+            cards => {
+                const transformed = cards.map(card => this.transformCard(card, transform));
+                gameStateManager.hand = gameStateManager.hand.map(card => {
+                    const index = cards.indexOf(card);
+                    return index >= 0 ? transformed[index] : card;
+                });
+                cards.forEach((card, index) => gameLogSystem.addMessage(
+                    `${this.describeCard(card)} se transforma en ${this.describeCard(transformed[index])}.`, 'player', 'special'));
+                this.publishEffect('TRANSFORM_CARD', cards.length);
+                done();
+            });
+    }
+
+    private transformCard(card: Card, transform: CardTransform): Card {
+        const suit = transform.suit ?? card.suit;
+        const rank = transform.rank ?? card.rank;
+        const template = deckManager.findCard(suit, rank);
+        // Conserva el id para que la carta siga siendo única en la mano
+        return {
+            ...card,
+            suit,
+            rank,
+            value: transform.value ?? template?.value ?? card.value,
+            imageFile: template?.imageFile ?? card.imageFile,
+        };
+    }
+
+    private applyGainPaEffect(amount: number) {
+        if (amount === 0) return;
+        gameStateManager.pa += amount;
+        gameLogSystem.addMessage(`Ganas ${amount} PA.`, 'player', 'focus');
+        this.publishEffect('GAIN_PA', amount);
+    }
+
+    private applyModifyMaxStatEffect(effect: RuleEffect, amount: number) {
+        if (!effect.targetStat || !MAX_STATS.includes(effect.targetStat)) {
+            console.warn(`⚠️ ScenarioRulesEngine: MODIFY_MAX_STAT sin targetStat válido en '${this.currentRuleId}'`);
+            return;
+        }
+        if (amount === 0) return;
+
+        const max = gameStateManager.modifyMaxStat(effect.targetStat, amount);
+        if (effect.targetStat === 'HP') {
+            gameLogSystem.addMessage(`La vida máxima del Eco pasa a ${max} HP.`, 'eco', 'special');
+        } else {
+            gameLogSystem.addMessage(`Tu máximo de ${effect.targetStat} pasa a ${max}.`, 'player', 'special');
+        }
+        this.publishEffect('MODIFY_MAX_STAT', amount);
+    }
+
+    private applyHallucinationEffect(effect: RuleEffect, count: number) {
+        if (count === 0) return;
+
+        if (effect.type === 'ADD_HALLUCINATION') {
+            for (let i = 0; i < count; i++) {
+                hallucinationSystem.addHallucinationToDeck();
+            }
+            gameLogSystem.addMessage(`${count} alucinación(es) se cuelan en tu mazo.`, 'eco', 'hallucination');
+            this.publishEffect('ADD_HALLUCINATION', count);
+            return;
+        }
+
+        const removed = hallucinationSystem.removeHallucinationsFromDeck(count);
+        gameLogSystem.addMessage(
+            removed > 0 ? `Purgas ${removed} alucinación(es) de tu mazo.` : 'No hay alucinaciones que purgar.',
+            'player',
+            'hallucination'
+        );
+        this.publishEffect('REMOVE_HALLUCINATION', removed);
+    }
+
+    /**
+     * El Eco queda aturdido y pierde sus próximos turnos de ataque
+     */
+    private applySkipEcoTurnEffect(turns: number) {
+        if (turns === 0) return;
+        statusEffectSystem.apply('ECO', 'STUNNED', turns, 1, this.currentSource);
+        this.publishEffect('SKIP_ECO_TURN', turns);
+    }
+
+    private applyHealEcoEffect(value: number) {
+        const oldHp = gameStateManager.ecoHp;
+        gameStateManager.ecoHp = Math.min(gameStateManager.maxEcoHp, oldHp + statusEffectSystem.modifyHealing(value, 'ECO'));
+        const healed = gameStateManager.ecoHp - oldHp;
+        gameLogSystem.addMessage(`El Eco se regenera ${healed} HP.`, 'eco', 'heal');
+        this.publishEffect('HEAL_ECO', healed);
+    }
+
+    private applyEcoDrawEffect(count: number) {
+        const cards = deckManager.drawFromEcoDeck(count);
+        if (cards.length === 0) return;
+        this.ecoHandReceiver(cards);
+        gameLogSystem.addMessage(`El Eco roba ${cards.length} carta(s).`, 'eco', 'draw');
+        this.publishEffect('ECO_DRAW', cards.length);
+    }
+
+    /**
+     * Aplica los efectos de un evento o un disparador (ScenarioEventsEngine, TriggerSystem).
+     * Un disparador puede saltar en mitad de otro efecto, así que se restaura el contexto.
+     */
+    public applyRuleEffects(effects: RuleEffect[], card: Card, sourceId: string = 'evento') {
+        const previousSource = this.currentSource;
+        const previousRuleId = this.currentRuleId;
+        this.currentSource = 'EVENT';
+        this.currentRuleId = sourceId;
+        this.applyEffects(effects, card);
+        this.currentSource = previousSource;
+        this.currentRuleId = previousRuleId;
     }
 
     /**
@@ -368,6 +1310,10 @@ class ScenarioRulesEngine {
     get hasRules(): boolean {
         return this.currentRules !== null;
     }
+
+    get hasCombos(): boolean {
+        return (this.currentRules?.combos?.length ?? 0) > 0;
+    }
 }
 
 export const scenarioRulesEngine = new ScenarioRulesEngine();
@@ -1,9 +1,13 @@
 // src/engine/ScoreSystem.ts
 
+import { gameEventBus } from './GameEventBus';
+import type { Card, RuleEffectType } from './types';
+
 export interface ScoreEvent {
   type: 'damage_dealt' | 'eco_killed' | 'node_repaired' | 'card_played' | 'turn_survived' | 
         'perfect_turn' | 'combo_played' | 'status_applied' | 'heal_received' | 'node_protected' |
-        'event_overcome' | 'critical_hit' | 'resource_saved' | 'time_bonus' | 'difficulty_bonus';
+        'event_overcome' | 'critical_hit' | 'resource_saved' | 'time_bonus' | 'difficulty_bonus' |
+        'effect_resolved';
   points: number;
   multiplier?: number;
   description: string;
@@ -27,6 +31,12 @@ export interface ComboTracker {
   comboWindow: number;
 }
 
+export interface ScoreSnapshot {
+  totalScore: number;
+  scoreEvents: ScoreEvent[];
+  combos: { [type: string]: ComboTracker };
+}
+
 class ScoreSystem {
   private totalScore: number = 0;
   private scoreEvents: ScoreEvent[] = [];
@@ -50,7 +60,20 @@ class ScoreSystem {
     event_overcome: 40,
     status_applied: 30,
     time_bonus: 200,
-    difficulty_bonus: 100
+    difficulty_bonus: 100,
+    effect_resolved: 0 // Según EFFECT_SCORES
+  };
+
+  // Puntos por unidad de los efectos de regla que resuelve el jugador a su favor
+  private readonly EFFECT_SCORES: Partial<Record<RuleEffectType, number>> = {
+    GAIN_PA: 15,
+    PEEK_DECK: 5,
+    RETURN_FROM_DISCARD: 10,
+    TRANSFORM_CARD: 10,
+    SHUFFLE_DISCARD_INTO_DECK: 2,
+    MODIFY_MAX_STAT: 10,
+    REMOVE_HALLUCINATION: 20,
+    SKIP_ECO_TURN: 60
   };
 
   private readonly COMBO_TYPES = {
@@ -63,6 +86,39 @@ class ScoreSystem {
 
   constructor() {
     this.resetScore();
+    this.subscribeToGameEvents();
+  }
+
+  /**
+   * Puntúa a partir de los eventos de dominio en lugar de llamadas desde la lógica de combate
+   */
+  private subscribeToGameEvents() {
+    gameEventBus.on('CardPlayed', ({ card, source, actionPointsBefore }) => {
+      if (source !== 'PLAYER') return;
+      this.scoreCardPlay(card, actionPointsBefore === 1); // Eficiente si gasta el último PA
+    });
+
+    gameEventBus.on('ComboPlayed', ({ cards, name }) => {
+      this.scoreCardCombo(name, cards);
+    });
+
+    gameEventBus.on('DamageDealt', ({ source, target, stat, amount, critical, remaining }) => {
+      if (source !== 'PLAYER' || target !== 'ECO' || stat !== 'HP') return;
+      this.scoreEcoDamage(amount, critical);
+      if (remaining <= 0) {
+        this.scoreEcoDefeat();
+      }
+    });
+
+    gameEventBus.on('NodeRepaired', ({ nodeId }) => {
+      this.scoreNodeAction('repaired', nodeId);
+    });
+
+    gameEventBus.on('EffectApplied', ({ effect, source, amount }) => {
+      const points = this.EFFECT_SCORES[effect];
+      if (source !== 'PLAYER' || !points || amount <= 0) return;
+      this.addScore('effect_resolved', points * amount, { effect, amount });
+    });
   }
 
   addScore(type: ScoreEvent['type'], amount?: number, context?: any): number {
@@ -134,6 +190,11 @@ class ScoreSystem {
     return totalPoints;
   }
 
+  // Combinación de cartas de rules.json: puntos de combo por cada carta
+  scoreCardCombo(name: string, cards: Card[]): number {
+    return this.addScore('combo_played', this.SCORE_VALUES.combo_played * cards.length, { comboName: name, cards });
+  }
+
   scoreEventHandling(eventType: string, outcome: 'success' | 'failure'): number {
     if (outcome === 'success') {
       return this.addScore('event_overcome', undefined, { eventType });
@@ -268,6 +329,9 @@ class ScoreSystem {
       case 'card_played':
         return `Carta Jugada: ${context?.card?.rank || '?'} (+${points})`;
       case 'combo_played':
+        if (context?.comboName) {
+          return `Combo ${context.comboName} (+${points})`;
+        }
         return `¡Combo x${Math.round((context?.combo || 1) * 10) / 10}! (+${points})`;
       case 'heal_received':
         return `Curación: ${context?.amount || 0} (+${points})`;
@@ -279,6 +343,8 @@ class ScoreSystem {
         return `Bonus de Dificultad: ${context?.difficulty || 'Normal'} (+${points})`;
       case 'resource_saved':
         return `¡Uso Eficiente! (+${points})`;
+      case 'effect_resolved':
+        return `Efecto ${context?.effect || ''} (+${points})`;
       default:
         return `Puntos: +${points}`;
     }
@@ -302,7 +368,7 @@ class ScoreSystem {
       'Combate': ['damage_dealt', 'eco_killed', 'critical_hit'],
       'Supervivencia': ['turn_survived', 'perfect_turn', 'heal_received'],
       'Defensa': ['node_repaired', 'node_protected'],
-      'Estrategia': ['card_played', 'combo_played', 'resource_saved'],
+      'Estrategia': ['card_played', 'combo_played', 'resource_saved', 'effect_resolved'],
       'Eventos': ['event_overcome', 'status_applied'],
       'Bonificaciones': ['time_bonus', 'difficulty_bonus']
     };
@@ -389,6 +455,22 @@ class ScoreSystem {
     });
   }
 
+  // Snapshot for mid-game save/resume
+  serialize(): ScoreSnapshot {
+    return {
+      totalScore: this.totalScore,
+      scoreEvents: [...this.scoreEvents],
+      combos: JSON.parse(JSON.stringify(this.combos))
+    };
+  }
+
+  restore(snapshot: ScoreSnapshot): void {
+    this.totalScore = snapshot.totalScore;
+    this.scoreEvents = [...snapshot.scoreEvents];
+    this.combos = JSON.parse(JSON.stringify(snapshot.combos));
+    this.multipliers = [];
+  }
+
   // Export/Import for persistence
   exportScoreData(): any {
     return {
@@ -0,0 +1,195 @@
+// src/engine/SimulationRunner.ts
+
+/**
+ * Simulador de partidas sin interfaz para pruebas de balance.
+ * Carga un escenario, juega N partidas con una política de bot sobre el
+ * motor real (TurnManager en modo headless) y resume los resultados:
+ * tasa de victoria, turnos medios, daño por palo y frecuencia de colapso de nodos.
+ */
+
+import { turnManager } from './TurnManager';
+import { gameStateManager, GamePhase } from './GameStateManager';
+import { nodeSystem } from './NodeSystem';
+import { gameClock } from './GameClock';
+import { gameEventBus } from './GameEventBus';
+import { choiceSystem } from './ChoiceSystem';
+import { greedyBot } from './BotPolicies';
+import type { BotPolicy } from './BotPolicies';
+import type { Suit } from './types';
+
+export interface SimulationOptions {
+    scenarioId?: string;
+    games?: number;
+    policy?: BotPolicy;
+    seed?: number; // Semilla base: la partida i usa seed + i
+    maxTurns?: number; // Las partidas que lo superan cuentan como no terminadas
+    maxActionsPerTurn?: number; // Evita bucles si el bot repite acciones inválidas
+}
+
+export interface SimulatedGame {
+    seed: number;
+    victory: boolean | null; // null si no terminó dentro del límite de turnos
+    turns: number;
+    collapsedNodes: string[];
+}
+
+export interface SimulationReport {
+    scenarioId: string;
+    policy: string;
+    games: number;
+    wins: number;
+    losses: number;
+    unfinished: number;
+    winRate: number;
+    averageTurns: number;
+    damageBySuit: Record<Suit, number>; // Daño medio al Eco por partida según el palo jugado
+    nodeCollapseFrequency: Record<string, number>; // Fracción de partidas en que colapsó cada nodo
+    results: SimulatedGame[];
+}
+
+const emptySuitRecord = (): Record<Suit, number> => ({ Spades: 0, Hearts: 0, Clubs: 0, Diamonds: 0, none: 0 });
+
+class SimulationRunner {
+    async run(options: SimulationOptions = {}): Promise<SimulationReport> {
+        const scenarioId = options.scenarioId ?? 'default';
+        const games = Math.max(1, options.games ?? 20);
+        const policy = options.policy ?? greedyBot;
+        const baseSeed = (options.seed ?? Date.now()) >>> 0;
+        const maxTurns = options.maxTurns ?? 60;
+        const maxActionsPerTurn = options.maxActionsPerTurn ?? 30;
+
+        const wasHeadless = turnManager.isHeadless;
+        turnManager.setHeadless(true);
+        if (policy.chooseOptions) {
+            choiceSystem.setAutoPolicy(policy.chooseOptions);
+        }
+
+        const results: SimulatedGame[] = [];
+        const damageBySuit = emptySuitRecord();
+
+        try {
+            for (let i = 0; i < games; i++) {
+                const seed = (baseSeed + i) >>> 0;
+                results.push(await this.playGame(scenarioId, seed, policy, maxTurns, maxActionsPerTurn, damageBySuit));
+            }
+        } finally {
+            turnManager.setHeadless(wasHeadless);
+        }
+
+        const wins = results.filter(r => r.victory === true).length;
+        const losses = results.filter(r => r.victory === false).length;
+
+        const nodeCollapseFrequency: Record<string, number> = {};
+        nodeSystem.allNodes.forEach(node => { nodeCollapseFrequency[node.id] = 0; });
+        results.forEach(r => r.collapsedNodes.forEach(id => {
+            nodeCollapseFrequency[id] = (nodeCollapseFrequency[id] ?? 0) + 1;
+        }));
+        Object.keys(nodeCollapseFrequency).forEach(id => { nodeCollapseFrequency[id] /= games; });
+        (Object.keys(damageBySuit) as Suit[]).forEach(suit => { damageBySuit[suit] /= games; });
+
+        return {
+            scenarioId,
+            policy: policy.id,
+            games,
+            wins,
+            losses,
+            unfinished: games - wins - losses,
+            winRate: wins / games,
+            averageTurns: results.reduce((sum, r) => sum + r.turns, 0) / games,
+            damageBySuit,
+            nodeCollapseFrequency,
+            results,
+        };
+    }
+
+    private async playGame(
+        scenarioId: string,
+        seed: number,
+        policy: BotPolicy,
+        maxTurns: number,
+        maxActionsPerTurn: number,
+        damageBySuit: Record<Suit, number>
+    ): Promise<SimulatedGame> {
+        await turnManager.startGame(scenarioId, { seed, record: false });
+        turnManager.completeGameStart();
+        gameClock.runPending();
+
+        const collapsed = new Set<string>();
+        let lastPlayedSuit: Suit | null = null;
+        const unsubscribers = [
+            gameEventBus.on('CardPlayed', ({ card, source }) => {
+                if (source === 'PLAYER') lastPlayedSuit = card.suit;
+            }),
+            gameEventBus.on('DamageDealt', ({ source, target, amount }) => {
+                if (source === 'PLAYER' && target === 'ECO' && lastPlayedSuit) {
+                    damageBySuit[lastPlayedSuit] += amount;
+                }
+            }),
+            gameEventBus.on('NodeCollapsed', ({ nodeId }) => collapsed.add(nodeId)),
+        ];
+        let actionsThisTurn = 0;
+        let currentTurn = gameStateManager.turn;
+
+        try {
+            while (!gameStateManager.isGameOver && gameStateManager.turn <= maxTurns) {
+                if (turnManager.currentEventCard) {
+                    turnManager.dismissEvent();
+                }
+
+                if (gameStateManager.phase !== GamePhase.PLAYER_ACTION) {
+                    // Sin tareas pendientes y fuera de la fase del jugador: el motor no puede avanzar
+                    if (gameClock.runPending() === 0) {
+                        console.error(`❌ SimulationRunner: Partida ${seed} detenida en fase ${gameStateManager.phase}`);
+                        break;
+                    }
+                    continue;
+                }
+
+                if (gameStateManager.turn !== currentTurn) {
+                    currentTurn = gameStateManager.turn;
+                    actionsThisTurn = 0;
+                }
+
+                const action = actionsThisTurn >= maxActionsPerTurn
+                    ? { type: 'endPlayerTurn' as const }
+                    : policy.chooseAction();
+                actionsThisTurn++;
+
+                lastPlayedSuit = null;
+                turnManager.executeAction(action);
+                gameClock.runPending();
+            }
+        } finally {
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+        }
+
+        return {
+            seed,
+            victory: gameStateManager.isGameOver ? gameStateManager.victory : null,
+            turns: gameStateManager.turn,
+            collapsedNodes: [...collapsed],
+        };
+    }
+
+    /**
+     * Resumen legible del informe para la consola
+     */
+    formatReport(report: SimulationReport): string {
+        const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+        const lines = [
+            `📊 Simulación: escenario '${report.scenarioId}', bot '${report.policy}', ${report.games} partidas`,
+            `   Victorias: ${report.wins} (${percent(report.winRate)}) · Derrotas: ${report.losses} · Sin terminar: ${report.unfinished}`,
+            `   Turnos medios: ${report.averageTurns.toFixed(1)}`,
+            `   Daño medio al Eco por partida según palo:`,
+            ...(Object.entries(report.damageBySuit) as [Suit, number][])
+                .filter(([suit]) => suit !== 'none')
+                .map(([suit, damage]) => `     ${suit.padEnd(9)} ${damage.toFixed(1)}`),
+            `   Frecuencia de colapso de nodos:`,
+            ...Object.entries(report.nodeCollapseFrequency)
+                .map(([nodeId, frequency]) => `     ${nodeId.padEnd(24)} ${percent(frequency)}`),
+        ];
+        return lines.join('\n');
+    }
+}
+
+export const simulationRunner = new SimulationRunner();
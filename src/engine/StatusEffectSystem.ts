@@ -0,0 +1,405 @@
+// src/engine/StatusEffectSystem.ts
+
+/**
+ * Estados alterados con duración del jugador y del Eco.
+ * Cada estado activo tiene acumulaciones y una duración en ticks (-1 = permanente)
+ * que se descuenta en la fase indicada por su definición. En cada tick se aplican
+ * sus efectos por turno (sangrado, regeneración) y, mientras está activo, sus
+ * modificadores de daño, curación y PA. Los escenarios amplían o redefinen el
+ * catálogo con statuses.json.
+ */
+
+import { gameStateManager } from './GameStateManager';
+import { gameLogSystem } from './GameLogSystem';
+import type { MessageSource } from './GameLogSystem';
+import { gameEventBus } from './GameEventBus';
+import type { Combatant, EffectSource } from './GameEventBus';
+import type { StatType, StatusDefinition, StatusTickPhase, Suit } from './types';
+
+export interface StatusInstance {
+    id: string;
+    stacks: number;
+    duration: number; // Ticks restantes; -1 = permanente
+    source: EffectSource; // Quién lo aplicó (para atribuir el daño por turno)
+}
+
+export interface ActiveStatus {
+    instance: StatusInstance;
+    definition: StatusDefinition;
+}
+
+export type StatusSnapshot = Record<Combatant, StatusInstance[]>;
+
+export const PERMANENT_DURATION = -1;
+
+const BUILT_IN_STATUSES: StatusDefinition[] = [
+    {
+        id: 'EXPOSED',
+        name: 'Expuesto',
+        description: 'El próximo ataque recibido causa el doble de daño.',
+        icon: '🎯',
+        kind: 'DEBUFF',
+        modifiers: { damageTakenPercent: 100 },
+        consumeOnHit: true,
+    },
+    {
+        id: 'BLEEDING',
+        name: 'Sangrado',
+        description: 'Pierde 2 puntos de vida por acumulación al comenzar cada turno.',
+        icon: '🩸',
+        kind: 'DEBUFF',
+        maxStacks: 5,
+        perTurn: { damage: 2 },
+    },
+    {
+        id: 'REGENERATION',
+        name: 'Regeneración',
+        description: 'Recupera 2 puntos de vida por acumulación al comenzar cada turno.',
+        icon: '💚',
+        kind: 'BUFF',
+        maxStacks: 3,
+        perTurn: { heal: 2 },
+    },
+    {
+        id: 'WEAKENED',
+        name: 'Debilitado',
+        description: 'Inflige un 25% menos de daño por acumulación.',
+        icon: '🥀',
+        kind: 'DEBUFF',
+        maxStacks: 3,
+        modifiers: { damageDealtPercent: -25 },
+    },
+    {
+        id: 'FORTIFIED',
+        name: 'Fortificado',
+        description: 'Recibe un 25% menos de daño.',
+        icon: '🛡️',
+        kind: 'BUFF',
+        modifiers: { damageTakenPercent: -25 },
+    },
+    {
+        id: 'ENERGIZED',
+        name: 'Energizado',
+        description: 'Gana 1 PA adicional por acumulación al comenzar el turno.',
+        icon: '⚡',
+        kind: 'BUFF',
+        maxStacks: 2,
+        tickPhase: 'PLAYER_TURN_END',
+        modifiers: { actionPoints: 1 },
+    },
+    {
+        id: 'SPADES_SEALED',
+        name: 'Espadas selladas',
+        description: 'No puede jugar Espadas hasta el final de su turno.',
+        icon: '🚫',
+        kind: 'DEBUFF',
+        tickPhase: 'PLAYER_TURN_END',
+        blockedSuits: ['Spades'],
+    },
+    {
+        id: 'STUNNED',
+        name: 'Aturdido',
+        description: 'Pierde su próximo turno de ataque.',
+        icon: '💫',
+        kind: 'DEBUFF',
+        tickPhase: 'ECO_TURN_END',
+        skipsTurn: true,
+    },
+];
+
+const TARGET_NAMES: Record<Combatant, string> = {
+    PLAYER: 'El jugador',
+    ECO: 'El Eco',
+};
+
+const LOG_SOURCES: Record<EffectSource, MessageSource> = {
+    PLAYER: 'player',
+    ECO: 'eco',
+    EVENT: 'event',
+};
+
+class StatusEffectSystem {
+    private definitions = new Map<string, StatusDefinition>();
+    private statuses: StatusSnapshot = { PLAYER: [], ECO: [] };
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        this.loadDefinitions([]);
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    /**
+     * Reinicia el catálogo con los estados del sistema más los del escenario,
+     * que reemplazan a los del sistema con el mismo id
+     */
+    loadDefinitions(scenarioStatuses: StatusDefinition[]) {
+        this.definitions = new Map(BUILT_IN_STATUSES.map(definition => [definition.id, definition]));
+
+        scenarioStatuses.forEach((definition, index) => {
+            const error = this.validateDefinition(definition);
+            if (error) {
+                console.error(`❌ StatusEffectSystem: Estado inválido en statuses.json[${index}]: ${error}`);
+                return;
+            }
+            this.definitions.set(definition.id, definition);
+        });
+
+        if (scenarioStatuses.length > 0) {
+            console.log(`🩸 StatusEffectSystem: ${this.definitions.size} estados disponibles (${scenarioStatuses.length} del escenario)`);
+        }
+    }
+
+    getDefinition(statusId: string): StatusDefinition | undefined {
+        return this.definitions.get(statusId);
+    }
+
+    /**
+     * Estados activos de un combatiente, en orden de aplicación
+     */
+    getStatuses(target: Combatant): ActiveStatus[] {
+        return this.statuses[target].flatMap(instance => {
+            const definition = this.definitions.get(instance.id);
+            return definition ? [{ instance, definition }] : [];
+        });
+    }
+
+    hasStatus(target: Combatant, statusId: string): boolean {
+        return this.statuses[target].some(instance => instance.id === statusId);
+    }
+
+    /**
+     * Aplica un estado o, si ya está activo, suma acumulaciones y renueva la duración
+     * @returns false si el estado no está definido
+     */
+    apply(target: Combatant, statusId: string, duration: number, stacks: number = 1, source: EffectSource = 'EVENT'): boolean {
+        const definition = this.definitions.get(statusId);
+        if (!definition) {
+            console.warn(`⚠️ StatusEffectSystem: Estado desconocido '${statusId}'`);
+            return false;
+        }
+
+        const maxStacks = definition.maxStacks ?? 1;
+        let instance = this.statuses[target].find(active => active.id === statusId);
+
+        if (instance) {
+            instance.stacks = Math.min(maxStacks, instance.stacks + stacks);
+            instance.duration = this.longestDuration(instance.duration, duration);
+            instance.source = source;
+        } else {
+            instance = { id: statusId, stacks: Math.min(maxStacks, Math.max(1, stacks)), duration, source };
+            this.statuses[target].push(instance);
+        }
+
+        const stackText = maxStacks > 1 ? ` x${instance.stacks}` : '';
+        const durationText = instance.duration === PERMANENT_DURATION ? '' : ` (${instance.duration} turno${instance.duration === 1 ? '' : 's'})`;
+        gameLogSystem.addMessage(
+            `${definition.icon} ${TARGET_NAMES[target]} sufre ${definition.name}${stackText}${durationText}.`,
+            LOG_SOURCES[source],
+            'special'
+        );
+        console.log(`🩸 StatusEffectSystem: ${statusId} aplicado a ${target} (acumulaciones ${instance.stacks}, duración ${instance.duration})`);
+
+        this.notify();
+        return true;
+    }
+
+    remove(target: Combatant, statusId: string) {
+        const before = this.statuses[target].length;
+        this.statuses[target] = this.statuses[target].filter(instance => instance.id !== statusId);
+        if (this.statuses[target].length !== before) {
+            this.notify();
+        }
+    }
+
+    /**
+     * Dispara los efectos por turno de los estados de esta fase y descuenta su duración
+     */
+    tick(phase: StatusTickPhase) {
+        (['PLAYER', 'ECO'] as const).forEach(target => {
+            this.getStatuses(target)
+                .filter(({ definition }) => (definition.tickPhase ?? 'TURN_START') === phase)
+                .forEach(({ instance, definition }) => {
+                    if (gameStateManager.isGameOver) return;
+                    this.applyPerTurnEffects(target, instance, definition);
+                    this.expire(target, instance, definition);
+                });
+        });
+        this.notify();
+    }
+
+    /**
+     * Daño final tras los modificadores del atacante y del objetivo.
+     * Retira los estados del objetivo que se consumen al recibir daño.
+     */
+    modifyDamage(amount: number, source: EffectSource, target: Combatant): { amount: number; critical: boolean } {
+        const modified = this.previewDamage(amount, source, target);
+        const critical = this.sumModifier(target, 'damageTakenPercent') > 0;
+
+        if (modified !== amount) {
+            gameLogSystem.addMessage(`Estados alterados: el daño pasa de ${amount} a ${modified}.`, 'system', 'info');
+        }
+
+        if (amount > 0) {
+            this.getStatuses(target)
+                .filter(({ definition }) => definition.consumeOnHit)
+                .forEach(({ definition }) => {
+                    this.remove(target, definition.id);
+                    gameLogSystem.addMessage(`${definition.icon} ${definition.name} se consume.`, 'system', 'info');
+                });
+        }
+
+        return { amount: modified, critical };
+    }
+
+    /**
+     * Daño que dejaría pasar modifyDamage, sin registrarlo ni consumir estados (intenciones del Eco)
+     */
+    previewDamage(amount: number, source: EffectSource, target: Combatant): number {
+        const dealtPercent = source === 'EVENT' ? 0 : this.sumModifier(source, 'damageDealtPercent');
+        const takenPercent = this.sumModifier(target, 'damageTakenPercent');
+        return Math.max(0, Math.round(amount * (100 + dealtPercent + takenPercent) / 100));
+    }
+
+    modifyHealing(amount: number, target: Combatant): number {
+        const percent = this.sumModifier(target, 'healingPercent');
+        return Math.max(0, Math.round(amount * (100 + percent) / 100));
+    }
+
+    getActionPointModifier(target: Combatant): number {
+        return this.sumModifier(target, 'actionPoints');
+    }
+
+    /**
+     * Estado que impide jugar el palo, si lo hay
+     */
+    getBlockingStatus(target: Combatant, suit: Suit): StatusDefinition | undefined {
+        return this.getStatuses(target).find(({ definition }) => definition.blockedSuits?.includes(suit))?.definition;
+    }
+
+    /**
+     * Estado que hace perder el turno al portador, si tiene alguno
+     */
+    getTurnSkippingStatus(target: Combatant): StatusDefinition | undefined {
+        return this.getStatuses(target).find(({ definition }) => definition.skipsTurn)?.definition;
+    }
+
+    reset() {
+        this.statuses = { PLAYER: [], ECO: [] };
+        this.notify();
+    }
+
+    serialize(): StatusSnapshot {
+        return {
+            PLAYER: this.statuses.PLAYER.map(instance => ({ ...instance })),
+            ECO: this.statuses.ECO.map(instance => ({ ...instance })),
+        };
+    }
+
+    restore(snapshot: StatusSnapshot) {
+        this.statuses = {
+            PLAYER: snapshot.PLAYER.map(instance => ({ ...instance })),
+            ECO: snapshot.ECO.map(instance => ({ ...instance })),
+        };
+        this.notify();
+    }
+
+    private applyPerTurnEffects(target: Combatant, instance: StatusInstance, definition: StatusDefinition) {
+        if (!definition.perTurn) return;
+
+        const stat = this.getPerTurnStat(target, definition.perTurn.stat);
+        const damage = (definition.perTurn.damage ?? 0) * instance.stacks;
+        const heal = (definition.perTurn.heal ?? 0) * instance.stacks;
+
+        if (damage > 0) {
+            this.applyPerTurnDamage(target, stat, damage, instance.source);
+            gameLogSystem.addMessage(`${definition.icon} ${definition.name}: ${TARGET_NAMES[target]} pierde ${damage} ${stat}.`, 'system', 'damage');
+        }
+        if (heal > 0) {
+            const healed = this.applyPerTurnHealing(target, stat, this.modifyHealing(heal, target));
+            gameLogSystem.addMessage(`${definition.icon} ${definition.name}: ${TARGET_NAMES[target]} recupera ${healed} ${stat}.`, 'system', 'heal');
+        }
+    }
+
+    private applyPerTurnDamage(target: Combatant, stat: StatType, amount: number, source: EffectSource) {
+        let remaining: number;
+        if (target === 'ECO') {
+            gameStateManager.dealDamageToEco(amount);
+            remaining = gameStateManager.ecoHp;
+        } else if (stat === 'COR') {
+            gameStateManager.dealSanityDamage(amount);
+            remaining = gameStateManager.sanity;
+        } else {
+            gameStateManager.dealDamageToPlayer(amount);
+            remaining = gameStateManager.pv;
+        }
+        gameEventBus.publish('DamageDealt', { source, target, stat, amount, critical: false, remaining });
+    }
+
+    private applyPerTurnHealing(target: Combatant, stat: StatType, amount: number): number {
+        if (target === 'ECO') {
+            const before = gameStateManager.ecoHp;
+            gameStateManager.ecoHp = Math.min(gameStateManager.maxEcoHp, before + amount);
+            return gameStateManager.ecoHp - before;
+        }
+        if (stat === 'COR') {
+            const before = gameStateManager.sanity;
+            gameStateManager.recoverSanity(amount);
+            return gameStateManager.sanity - before;
+        }
+        const before = gameStateManager.pv;
+        gameStateManager.pv = Math.min(gameStateManager.maxPV, before + amount);
+        return gameStateManager.pv - before;
+    }
+
+    private getPerTurnStat(target: Combatant, stat: StatType | undefined): StatType {
+        if (target === 'ECO') return 'HP';
+        return stat === 'COR' ? 'COR' : 'PV';
+    }
+
+    private expire(target: Combatant, instance: StatusInstance, definition: StatusDefinition) {
+        if (instance.duration === PERMANENT_DURATION) return;
+
+        instance.duration--;
+        if (instance.duration <= 0) {
+            this.statuses[target] = this.statuses[target].filter(active => active !== instance);
+            gameLogSystem.addMessage(`${definition.icon} ${definition.name} termina para ${TARGET_NAMES[target].toLowerCase()}.`, 'system', 'info');
+        }
+    }
+
+    private sumModifier(target: Combatant, modifier: keyof NonNullable<StatusDefinition['modifiers']>): number {
+        return this.getStatuses(target).reduce(
+            (sum, { instance, definition }) => sum + (definition.modifiers?.[modifier] ?? 0) * instance.stacks,
+            0
+        );
+    }
+
+    private longestDuration(current: number, added: number): number {
+        if (current === PERMANENT_DURATION || added === PERMANENT_DURATION) return PERMANENT_DURATION;
+        return Math.max(current, added);
+    }
+
+    private validateDefinition(definition: StatusDefinition): string | null {
+        if (!definition.id || !definition.name) {
+            return 'faltan id o name';
+        }
+        if (definition.maxStacks !== undefined && definition.maxStacks < 1) {
+            return `${definition.id}: maxStacks debe ser al menos 1`;
+        }
+        if (definition.tickPhase && !['TURN_START', 'PLAYER_TURN_END', 'ECO_TURN_END'].includes(definition.tickPhase)) {
+            return `${definition.id}: tickPhase desconocida '${definition.tickPhase}'`;
+        }
+        return null;
+    }
+}
+
+export const statusEffectSystem = new StatusEffectSystem();
@@ -0,0 +1,139 @@
+// src/engine/TriggerSystem.ts
+
+/**
+ * Disparadores del escenario (sección triggers de rules.json).
+ * Cada disparador escucha un momento de la partida (inicio o final de turno,
+ * mantenimiento, umbrales de PV y COR, nodos, fases del Eco, alucinaciones,
+ * mazo rebarajado) y aplica su lista de efectos con el motor de reglas.
+ * Pueden limitarse a una vez por partida o esperar unos turnos entre disparos.
+ */
+
+import { gameStateManager } from './GameStateManager';
+import { gameEventBus } from './GameEventBus';
+import { gameLogSystem } from './GameLogSystem';
+import { scenarioRulesEngine } from './ScenarioRulesEngine';
+import type { Card, TriggerHook, TriggerRule } from './types';
+
+// Turno del último disparo de cada disparador, por id
+export type TriggerSnapshot = Record<string, number>;
+
+// Carta de los disparos que no provoca ninguna carta: no cumple predicados de carta
+const NO_CARD: Card = { id: '', suit: 'none', rank: '', value: 0, imageFile: '' };
+
+class TriggerSystem {
+    private triggers: TriggerRule[] = [];
+    private lastFired: TriggerSnapshot = {};
+    private resolving = new Set<string>(); // Un disparador no se vuelve a disparar con sus propios efectos
+    private armed = false; // Hasta el primer turno, los cambios son de preparar la partida
+    private lastStats: { pv: number; cor: number } | null = null;
+    private unsubscribeState: (() => void) | null = null;
+
+    constructor() {
+        gameEventBus.on('TurnStarted', () => {
+            if (!this.armed) {
+                this.armed = true;
+                this.lastStats = null;
+            }
+            this.fire('TURN_START');
+        });
+        gameEventBus.on('TurnEnded', () => this.fire('TURN_END'));
+        gameEventBus.on('MaintenanceStarted', () => this.fire('MAINTENANCE'));
+        gameEventBus.on('NodeCollapsed', ({ nodeId }) =>
+            this.fire('NODE_COLLAPSED', NO_CARD, trigger => !trigger.node || trigger.node === nodeId));
+        gameEventBus.on('NodeRepaired', ({ nodeId, amount, damage }) => {
+            if (amount <= 0 || damage > 0) return;
+            this.fire('NODE_REPAIRED', NO_CARD, trigger => !trigger.node || trigger.node === nodeId);
+        });
+        gameEventBus.on('EcoPhaseChanged', ({ to }) =>
+            this.fire('ECO_PHASE_CHANGED', NO_CARD, trigger => !trigger.phase || trigger.phase === to));
+        gameEventBus.on('HallucinationDrawn', ({ card }) => this.fire('HALLUCINATION_DRAWN', card));
+        gameEventBus.on('DeckReshuffled', ({ source }) => {
+            if (source === 'PLAYER') this.fire('DECK_RESHUFFLED');
+        });
+    }
+
+    /**
+     * Carga los disparadores del escenario (los valida ScenarioRulesEngine junto a las reglas)
+     */
+    load(triggers: TriggerRule[]) {
+        this.triggers = triggers;
+        // Suscribirse en el constructor crearía un ciclo de importación con GameStateManager
+        if (!this.unsubscribeState) {
+            this.unsubscribeState = gameStateManager.subscribe(() => this.checkThresholds());
+        }
+        console.log(`⚡ TriggerSystem: ${triggers.length} disparador(es) cargado(s)`);
+    }
+
+    /**
+     * PV_BELOW y COR_BELOW saltan al cruzar el umbral hacia abajo, no mientras se sigue por debajo
+     */
+    private checkThresholds() {
+        if (!this.armed) return;
+        const current = { pv: gameStateManager.pv, cor: gameStateManager.sanity };
+        const previous = this.lastStats ?? current;
+        this.lastStats = current;
+
+        this.fire('PV_BELOW', NO_CARD, trigger => this.crossedBelow(previous.pv, current.pv, trigger.threshold));
+        this.fire('COR_BELOW', NO_CARD, trigger => this.crossedBelow(previous.cor, current.cor, trigger.threshold));
+    }
+
+    private crossedBelow(before: number, after: number, threshold: number | undefined): boolean {
+        return threshold !== undefined && before >= threshold && after < threshold;
+    }
+
+    private fire(hook: TriggerHook, card: Card = NO_CARD, matches: (trigger: TriggerRule) => boolean = () => true) {
+        if (!this.armed || gameStateManager.isGameOver) return;
+
+        this.triggers.forEach((trigger, index) => {
+            if (trigger.hook !== hook || !matches(trigger)) return;
+
+            const triggerId = trigger.id ?? `triggers[${index}]`;
+            if (this.resolving.has(triggerId) || !this.isReady(trigger, triggerId)) return;
+            if (trigger.condition && !scenarioRulesEngine.evaluateCondition(trigger.condition, card)) return;
+
+            console.log(`⚡ TriggerSystem: Disparador ${triggerId} (${hook})`);
+            this.lastFired[triggerId] = gameStateManager.turn;
+            if (trigger.message) {
+                gameLogSystem.addMessage(trigger.message, 'system', 'special');
+            }
+
+            this.resolving.add(triggerId);
+            try {
+                scenarioRulesEngine.applyRuleEffects(trigger.effects, card, triggerId);
+            } finally {
+                this.resolving.delete(triggerId);
+            }
+        });
+    }
+
+    private isReady(trigger: TriggerRule, triggerId: string): boolean {
+        const lastTurn = this.lastFired[triggerId];
+        if (lastTurn === undefined) return true;
+        if (trigger.oncePerGame) return false;
+        return gameStateManager.turn >= lastTurn + (trigger.cooldown ?? 0);
+    }
+
+    /**
+     * Nueva partida: olvida los disparos y espera al primer turno
+     */
+    reset() {
+        this.lastFired = {};
+        this.armed = false;
+        this.lastStats = null;
+    }
+
+    serialize(): TriggerSnapshot {
+        return { ...this.lastFired };
+    }
+
+    /**
+     * Partida en curso: los umbrales se comparan a partir del estado restaurado
+     */
+    restore(snapshot: TriggerSnapshot) {
+        this.lastFired = { ...snapshot };
+        this.armed = true;
+        this.lastStats = null;
+    }
+}
+
+export const triggerSystem = new TriggerSystem();
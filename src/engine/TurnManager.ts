@@ -11,21 +11,87 @@ import { gameLogSystem } from './GameLogSystem';
 import { vfxSystem } from './VFXSystem';
 import { uiPositionManager } from './UIPositionManager';
 import { scenarioEventsEngine } from './ScenarioEventsEngine';
-// import { chapterManager } from './ChapterManager'; // Reserved for future use
+import { chapterManager } from './ChapterManager';
 import { scoreSystem } from './ScoreSystem';
 import { audioManager } from './AudioManager';
+import { randomSystem } from './RandomSystem';
+import { saveGameManager } from './SaveGameManager';
+import { actionRecorder } from './ActionRecorder';
+import type { ReplayAction } from './ActionRecorder';
+import { gameClock } from './GameClock';
+import { gameEventBus } from './GameEventBus';
+import { legalActionSystem } from './LegalActionSystem';
+import { undoSystem } from './UndoSystem';
+import { statusEffectSystem } from './StatusEffectSystem';
+import { ecoDefenseSystem } from './EcoDefenseSystem';
+import { choiceSystem, randomChoicePolicy } from './ChoiceSystem';
+import { triggerSystem } from './TriggerSystem';
+import { milestoneSystem } from './MilestoneSystem';
+import { eventScheduler } from './EventScheduler';
+import { environmentSystem } from './EnvironmentSystem';
 import type { Card, Event, HallucinationCard, DynamicEvent } from './types';
 
+export interface StartGameOptions {
+    seed?: number; // Semilla del RNG; si se omite se genera una nueva
+    record?: boolean; // Grabar las acciones para repeticiones (por defecto true)
+}
+
 class TurnManager {
     public currentEvent: Event | null = null;
     public currentEventCard: Card | null = null;
     public currentDynamicEvent: DynamicEvent | null = null;
     public onEventShow: ((eventCard: Card, event: DynamicEvent) => void) | null = null;
+    public onEventDismissed: (() => void) | null = null;
+    private queuedEvents: { event: DynamicEvent; card: Card }[] = []; // Eventos del turno que esperan a que se cierre el actual
     private lastTurnPV: number = 20;
     private lastTurnSanity: number = 20;
+    private headless: boolean = false;
+
+    get isHeadless() { return this.headless; }
+
+    /**
+     * Modo sin interfaz (simulaciones): sin VFX, audio ni posiciones de pantalla,
+     * sin autoguardado y con el reloj del juego en modo instantáneo.
+     */
+    setHeadless(headless: boolean) {
+        this.headless = headless;
+        audioManager.setMuted(headless);
+        gameClock.setMode(headless ? 'instant' : 'realtime');
+        choiceSystem.setAutoPolicy(headless ? randomChoicePolicy : null);
+        if (headless) {
+            saveGameManager.disableAutosave();
+        }
+    }
 
-    async startGame(scenarioId: string = 'default') {
+    async startGame(scenarioId: string = 'default', options: StartGameOptions = {}) {
         console.log(`🎮 TurnManager: Iniciando juego con escenario '${scenarioId}'`);
+        
+        // Fijar la semilla antes de barajar para que la partida sea reproducible
+        const seed = randomSystem.setSeed(options.seed);
+        console.log(`🎲 TurnManager: Partida con semilla ${seed}`);
+        
+        if (options.record !== false) {
+            actionRecorder.start(seed, scenarioId, chapterManager.currentChapterConfig?.id ?? null);
+        } else {
+            actionRecorder.stop();
+        }
+        
+        // Descartar esperas pendientes, elecciones sin responder y el historial de deshacer de la partida anterior
+        gameClock.clear();
+        choiceSystem.reset();
+        undoSystem.reset();
+        triggerSystem.reset();
+        scenarioEventsEngine.resetPendingOptions();
+        this.queuedEvents = [];
+        milestoneSystem.reset();
+        environmentSystem.reset();
+        
+        // Una partida nueva reemplaza cualquier partida guardada
+        if (!this.headless) {
+            saveGameManager.clearSave();
+            saveGameManager.enableAutosave();
+        }
+        
         try {
             await scenarioLoader.load(scenarioId);
             console.log(`✅ TurnManager: Escenario cargado exitosamente`);
@@ -35,6 +101,8 @@ class TurnManager {
             deckManager.reset(); // Asegurar que los mazos estén limpios
             nodeSystem.initialize();
             gameStateManager.reset();
+            statusEffectSystem.reset();
+            ecoDefenseSystem.reset();
             
             // Repartir cartas al ECO
             const ecoHand = deckManager.drawFromEcoDeck(5);
@@ -50,9 +118,54 @@ class TurnManager {
             // Continue with game initialization even if scenario loading fails
             nodeSystem.initialize();
             gameStateManager.reset();
+            statusEffectSystem.reset();
+            ecoDefenseSystem.reset();
         }
     }
     
+    /**
+     * Reanuda la partida guardada en el mismo turno y fase en que se dejó
+     * @returns true si se pudo restaurar la partida
+     */
+    async resumeGame(): Promise<boolean> {
+        const snapshot = saveGameManager.loadSnapshot();
+        if (!snapshot) {
+            console.warn(`⚠️ TurnManager: No hay partida guardada para reanudar`);
+            return false;
+        }
+        
+        // Una partida reanudada no puede reproducirse desde su semilla inicial
+        actionRecorder.stop();
+        choiceSystem.reset();
+        undoSystem.reset();
+        
+        const restored = await saveGameManager.restoreSnapshot(snapshot);
+        if (!restored) {
+            gameLogSystem.addMessage('No se pudo reanudar la partida guardada.', 'system', 'info');
+            return false;
+        }
+        
+        this.currentEvent = null;
+        this.currentEventCard = null;
+        this.currentDynamicEvent = null;
+        this.queuedEvents = [];
+        this.lastTurnPV = gameStateManager.pv;
+        this.lastTurnSanity = gameStateManager.sanity;
+        saveGameManager.enableAutosave();
+        
+        gameLogSystem.addMessage(`Partida reanudada en el turno ${gameStateManager.turn}.`, 'system', 'info');
+        
+        // El guardado se hace con la fase de acción ya preparada (PA e intención del Eco):
+        // solo quedan por ofrecer las opciones de evento sin responder
+        if (gameStateManager.phase === GamePhase.PLAYER_ACTION) {
+            saveGameManager.markActionPhaseReady();
+            scenarioEventsEngine.offerPendingOptions();
+        } else {
+            this.advancePhase();
+        }
+        return true;
+    }
+    
     // Nueva función para completar el inicio del juego después de la narrativa
     completeGameStart() {
         console.log(`🎴 TurnManager: Completando inicio del juego`);
@@ -102,16 +215,23 @@ class TurnManager {
         }
         console.log(`➡️ TurnManager: Avanzando a fase: ${nextPhase}`);
         gameStateManager.phase = nextPhase;
-        setTimeout(() => this.advancePhase(), 50);
+        gameClock.schedule(() => this.advancePhase(), 50);
     }
 
     endPlayerTurn() {
+        if (choiceSystem.isPending) {
+            gameLogSystem.addMessage('Responde primero a la elección pendiente.', 'system', 'info');
+            return;
+        }
         if (gameStateManager.phase === GamePhase.PLAYER_ACTION) {
             // Score for turn completion
             const damageThisTurn = this.calculateDamageThisTurn();
             scoreSystem.scoreTurnSurvival(gameStateManager.turn, damageThisTurn);
             
-            gameStateManager.removePlayerStatusEffect('cannotPlaySpades');
+            actionRecorder.record({ type: 'endPlayerTurn' });
+            
+            gameStateManager.clearSelectedCards();
+            statusEffectSystem.tick('PLAYER_TURN_END');
             gameStateManager.phase = GamePhase.ECO_ATTACK;
             this.advancePhase();
         }
@@ -123,61 +243,70 @@ class TurnManager {
             return;
         }
 
-        if (gameStateManager.pa < 1) {
-            gameLogSystem.addMessage("Cannot play card: no AP remaining.", 'system', 'info');
+        actionRecorder.record({ type: 'playCard', cardId: card.id });
+
+        const check = legalActionSystem.checkCardPlay(card);
+        if (!check.allowed) {
+            gameLogSystem.addMessage(check.reason!, 'player', 'info');
             return;
         }
 
-        // Calcular posiciones reales para efectos VFX
-        const startPosition = uiPositionManager.get('playerHand') || { 
-            x: window.innerWidth / 2, 
-            y: window.innerHeight - 120 
-        };
-        
-        // Posición central para la animación de carta
-        const centerPosition = {
-            x: window.innerWidth / 2,
-            y: window.innerHeight / 2 - 50
-        };
-        
-        // Posición del ECO (lado derecho superior)
-        const endPosition = uiPositionManager.get('eco') || { 
-            x: window.innerWidth - 200, 
-            y: 150 
-        };
-        
-        console.log(`🎯 TurnManager: Triggering player card animation for`, card.rank, card.suit);
-        
-        // 🎴 NUEVA ANIMACIÓN: Carta del jugador con efectos como el ECO
-        vfxSystem.playerPlayCard({
-            card,
-            startPosition,
-            centerPosition
-        });
-        
-        console.log(`🎯 TurnManager: Triggering VFX from`, startPosition, 'to', endPosition, 'for suit', card.suit);
-        vfxSystem.triggerSuitEffect(card.suit, startPosition, endPosition);
-        
-        // Reproducir efecto de sonido específico según el palo de la carta
-        this.playCardSoundEffect(card);
+        undoSystem.capture(`jugar ${card.rank} de ${card.suit}`);
 
         gameStateManager.hand = gameStateManager.hand.filter(c => c.id !== card.id);
         
-        // Score for card play with efficiency check
-        const wasEfficient = gameStateManager.pa === 1; // Spending last AP
-        scoreSystem.scoreCardPlay(card, wasEfficient);
+        // Animación, sonido y puntuación reaccionan al evento antes de resolver el efecto
+        gameEventBus.publish('CardPlayed', { card, source: 'PLAYER', actionPointsBefore: gameStateManager.pa });
         
         cardEffectEngine.applyEffect(card);
     }
 
+    /**
+     * Juega varias cartas de la mano como una combinación de rules.json (pareja, escalera...)
+     */
+    playCombo(cards: Card[]) {
+        if (gameStateManager.phase !== GamePhase.PLAYER_ACTION) {
+            gameLogSystem.addMessage("Cannot play combo: not player's turn.", 'system', 'info');
+            return;
+        }
+
+        actionRecorder.record({ type: 'playCombo', cardIds: cards.map(card => card.id) });
+
+        const check = legalActionSystem.checkCombo(cards);
+        if (!check.allowed) {
+            gameLogSystem.addMessage(check.reason!, 'player', 'info');
+            return;
+        }
+
+        const combo = legalActionSystem.getComboRule(cards)!;
+        undoSystem.capture(`jugar ${combo.name}`);
+
+        const cardIds = cards.map(card => card.id);
+        gameStateManager.hand = gameStateManager.hand.filter(c => !cardIds.includes(c.id));
+        gameStateManager.clearSelectedCards();
+        gameLogSystem.addMessage(`Combo ${combo.name}: ${cards.map(card => `${card.rank} de ${card.suit}`).join(', ')}.`, 'player', 'special');
+
+        gameEventBus.publish('ComboPlayed', {
+            cards,
+            comboId: combo.id ?? combo.name,
+            name: combo.name,
+            actionPointsBefore: gameStateManager.pa,
+        });
+
+        cardEffectEngine.applyCombo(combo, cards);
+    }
+
     performFocus(cardToDiscard: Card) {
         if (gameStateManager.phase !== GamePhase.PLAYER_ACTION) {
             gameLogSystem.addMessage("Cannot focus: not player's turn.", 'system', 'info');
             return;
         }
 
-        if (gameStateManager.pa < 1) {
-            gameLogSystem.addMessage("Cannot focus: no AP remaining.", 'system', 'info');
+        actionRecorder.record({ type: 'performFocus', cardId: cardToDiscard.id });
+
+        const check = legalActionSystem.checkFocus(cardToDiscard);
+        if (!check.allowed) {
+            gameLogSystem.addMessage(check.reason!, 'system', 'info');
             return;
         }
 
@@ -199,8 +328,11 @@ class TurnManager {
             return;
         }
 
-        if (gameStateManager.pa <= 0) {
-            gameLogSystem.addMessage("Cannot draw card: no AP remaining.", 'system', 'info');
+        actionRecorder.record({ type: 'drawCard' });
+
+        const check = legalActionSystem.checkDraw();
+        if (!check.allowed) {
+            gameLogSystem.addMessage(check.reason!, 'system', 'info');
             return;
         }
 
@@ -214,15 +346,127 @@ class TurnManager {
         scoreSystem.addScore('resource_saved', undefined, { action: 'draw' });
     }
 
-    private drawPlayerHand(count: number) {
-        const startPosition = uiPositionManager.get('deck') || { x: window.innerWidth / 2, y: 0 };
+    /**
+     * Cierra el evento mostrado actualmente (la carta ya se procesó en la fase de evento)
+     * y muestra el siguiente si en el turno se revelaron varios
+     */
+    dismissEvent() {
+        if (!this.currentEventCard) return;
+        actionRecorder.record({ type: 'dismissEvent' });
         
-        // Use screen-centered temporary positions that will be corrected by updateHand
-        const tempEndPosition = {
-            x: window.innerWidth / 2,
-            y: window.innerHeight - 120
+        // La carta vuelve al descarte salvo que su evento siga en juego (los hitos no son cartas del mazo)
+        const eventCard = this.currentEventCard;
+        if (eventCard.suit !== 'none' && !environmentSystem.holdsCard(eventCard.id)) {
+            deckManager.discard([eventCard]);
+        }
+        this.currentEventCard = null;
+        this.currentDynamicEvent = null;
+        this.onEventDismissed?.();
+
+        const next = this.queuedEvents.shift();
+        if (next) {
+            this.showEvent(next.card, next.event);
+        }
+    }
+
+    /**
+     * Despeja un evento ambiental en juego pagando el coste de su acción
+     */
+    clearEvent(eventId: string) {
+        actionRecorder.record({ type: 'clearEvent', eventId });
+
+        const check = legalActionSystem.checkClearEvent(eventId);
+        if (!check.allowed) {
+            gameLogSystem.addMessage(check.reason!, 'player', 'info');
+            return;
+        }
+
+        undoSystem.capture(`despejar ${environmentSystem.getActiveEvent(eventId)?.event.event ?? eventId}`);
+        environmentSystem.clear(eventId);
+    }
+
+    /**
+     * Responde a la elección que ha pedido un efecto (cartas, nodo u opción)
+     */
+    answerChoice(optionIds: string[]) {
+        if (!choiceSystem.isPending) return;
+        actionRecorder.record({ type: 'choose', optionIds });
+        choiceSystem.answer(optionIds);
+    }
+
+    /**
+     * Deshace la última acción de la fase de acción, si el historial lo permite
+     */
+    undoLastAction() {
+        if (!undoSystem.canUndo) {
+            gameLogSystem.addMessage('No hay acciones que deshacer.', 'system', 'info');
+            return;
+        }
+        actionRecorder.record({ type: 'undo' });
+        undoSystem.undo();
+    }
+
+    /**
+     * Ejecuta un comando del jugador (repeticiones y bots de simulación).
+     * Las cartas se buscan por id en la mano actual; las que no estén se ignoran.
+     */
+    executeAction(action: ReplayAction) {
+        const findCard = (cardId: string) => {
+            const card = gameStateManager.hand.find(c => c.id === cardId);
+            if (!card) {
+                console.warn(`⚠️ TurnManager: La carta ${cardId} no está en la mano`);
+            }
+            return card;
         };
-        
+        const findCards = (cardIds: string[]) => cardIds
+            .map(findCard)
+            .filter((card): card is Card => card !== undefined);
+
+        switch (action.type) {
+            case 'playCard': {
+                const card = findCard(action.cardId);
+                if (card) this.playCard(card);
+                break;
+            }
+            case 'playCombo':
+                this.playCombo(findCards(action.cardIds));
+                break;
+            case 'performFocus': {
+                const card = findCard(action.cardId);
+                if (card) this.performFocus(card);
+                break;
+            }
+            case 'drawCard':
+                this.drawCard();
+                break;
+            case 'endPlayerTurn':
+                this.endPlayerTurn();
+                break;
+            case 'repairNode':
+                cardEffectEngine.repairNode(action.nodeId, findCards(action.cardIds));
+                break;
+            case 'focusAction':
+                cardEffectEngine.focusAction(findCards(action.cardIds));
+                break;
+            case 'searchAction':
+                cardEffectEngine.searchAction(findCards(action.cardIds), action.searchType);
+                break;
+            case 'dismissEvent':
+                this.dismissEvent();
+                break;
+            case 'clearEvent':
+                this.clearEvent(action.eventId);
+                break;
+            case 'undo':
+                this.undoLastAction();
+                break;
+            case 'choose':
+                this.answerChoice(action.optionIds);
+                break;
+        }
+    }
+
+    private drawPlayerHand(count: number) {
         for (let i = 0; i < count; i++) {
             const cards = deckManager.drawCards(1);
             const card = cards.length > 0 ? cards[0] : null;
@@ -238,74 +482,127 @@ class TurnManager {
                 i--; // Don't count hallucinations towards the draw count
             } else {
                 gameStateManager.hand.push(card);
-                vfxSystem.dealCard({
-                    card,
-                    startPosition,
-                    endPosition: { x: tempEndPosition.x + (i - count/2) * 50, y: tempEndPosition.y },
-                    delay: i * 0.2,
-                });
+                if (!this.headless) {
+                    this.presentDealtCard(card, i, count);
+                }
             }
         }
     }
 
+    private presentDealtCard(card: Card, index: number, count: number) {
+        const startPosition = uiPositionManager.get('deck') || { x: window.innerWidth / 2, y: 0 };
+        
+        // Use screen-centered temporary positions that will be corrected by updateHand
+        const tempEndPosition = {
+            x: window.innerWidth / 2,
+            y: window.innerHeight - 120
+        };
+        
+        vfxSystem.dealCard({
+            card,
+            startPosition,
+            endPosition: { x: tempEndPosition.x + (index - count/2) * 50, y: tempEndPosition.y },
+            delay: index * 0.2,
+        });
+    }
+
     private executeEventPhase() {
         gameLogSystem.addMessage(`Turno ${gameStateManager.turn}: Fase de Evento`, 'system', 'info');
+        gameEventBus.publish('TurnStarted', { turn: gameStateManager.turn });
+        statusEffectSystem.tick('TURN_START');
         
-        // Los eventos solo se activan después del turno 3
-        if (gameStateManager.turn <= 3) {
-            console.log(`🛡️ TurnManager: Eventos desactivados - Turno ${gameStateManager.turn} (eventos activos desde turno 4)`);
-            gameLogSystem.addMessage(`Turno ${gameStateManager.turn}: Los eventos se activan a partir del turno 4.`, 'system', 'info');
+        // Un hito de la cronología se suma a los eventos del mazo del turno
+        const milestone = milestoneSystem.reachNext();
+        if (milestone) {
+            this.presentEvent(milestone.card, milestone.event);
+        }
+        
+        // La frecuencia de eventos depende de la fase del Eco y del capítulo
+        const pressure = eventScheduler.getPressure();
+        if (pressure.inGrace) {
+            console.log(`🛡️ TurnManager: Eventos desactivados - Turno ${gameStateManager.turn} (eventos activos desde turno ${pressure.graceTurns + 1})`);
+            gameLogSystem.addMessage(`Turno ${gameStateManager.turn}: Los eventos se activan a partir del turno ${pressure.graceTurns + 1}.`, 'system', 'info');
             return;
         }
         
-        // Revelar carta superior del mazo para el evento
+        const eventCount = eventScheduler.rollEventCount();
+        for (let i = 0; i < eventCount; i++) {
+            if (!this.revealEvent()) break;
+        }
+    }
+    
+    /**
+     * Revela la carta superior del mazo y resuelve su evento
+     * @returns false si no quedan cartas para eventos
+     */
+    private revealEvent(): boolean {
         const eventCard = deckManager.drawCards(1)[0];
         if (!eventCard) {
             gameLogSystem.addMessage("No quedan cartas para eventos.", 'system', 'info');
-            return;
+            return false;
         }
         
         console.log(`📅 TurnManager: Procesando evento para carta ${eventCard.id}`);
         
-        // Guardar carta del evento actual para referencia
-        this.currentEventCard = eventCard;
-        
         // Intentar usar el sistema de eventos dinámicos
         if (scenarioEventsEngine.hasEvents) {
             const result = scenarioEventsEngine.processEvent(eventCard);
             if (result.processed && result.event) {
-                this.currentDynamicEvent = result.event;
-                
-                // Mostrar evento visual si hay callback registrado
-                if (this.onEventShow) {
-                    console.log(`🎭 TurnManager: Mostrando evento visual: ${result.event.event}`);
-                    this.onEventShow(eventCard, result.event);
-                } else {
-                    // Fallback al log si no hay sistema visual
-                    gameLogSystem.addMessage(`🎭 ${result.event.event}`, 'system', 'info');
-                    gameLogSystem.addMessage(result.event.flavor, 'system', 'info');
-                }
-                
-                // Score for handling events
-                scoreSystem.scoreEventHandling(result.event.event, 'success');
-                
+                environmentSystem.start(result.event, eventCard);
+                this.presentEvent(eventCard, result.event);
                 console.log(`📅 TurnManager: Evento dinámico procesado: ${result.event.event}`);
             } else {
                 gameLogSystem.addMessage(`Evento desconocido para carta ${eventCard.rank} de ${eventCard.suit}`, 'system', 'info');
-                this.currentDynamicEvent = null;
                 // Descartar inmediatamente si no hay evento
                 deckManager.discard([eventCard]);
             }
         } else {
             // Fallback: usar sistema de eventos original si existe
             gameLogSystem.addMessage(`Evento no procesado para carta ${eventCard.rank} de ${eventCard.suit}`, 'system', 'info');
-            this.currentDynamicEvent = null;
             // Descartar inmediatamente si no hay sistema de eventos
             deckManager.discard([eventCard]);
         }
         
         // No descartar la carta inmediatamente si hay sistema visual - se descarta cuando se cierra el modal
-        // La carta se descartará cuando se cierre el modal del evento
+        return true;
+    }
+    
+    /**
+     * Puntúa un evento ya resuelto (carta del mazo o hito de la cronología) y lo muestra,
+     * o lo deja en cola si aún se está mostrando otro evento del turno
+     */
+    private presentEvent(eventCard: Card, event: DynamicEvent) {
+        // Los eventos con opciones puntúan según la opción elegida
+        if (event.options && event.options.length > 0) {
+            scenarioEventsEngine.queueOptions(event, eventCard);
+        } else {
+            // Score for handling events
+            scoreSystem.scoreEventHandling(event.event, 'success');
+        }
+        
+        if (this.currentEventCard) {
+            this.queuedEvents.push({ event, card: eventCard });
+            return;
+        }
+        this.showEvent(eventCard, event);
+    }
+    
+    /**
+     * Muestra un evento hasta que se cierra con dismissEvent
+     */
+    private showEvent(eventCard: Card, event: DynamicEvent) {
+        this.currentEventCard = eventCard;
+        this.currentDynamicEvent = event;
+        
+        // Mostrar evento visual si hay callback registrado
+        if (this.onEventShow) {
+            console.log(`🎭 TurnManager: Mostrando evento visual: ${event.event}`);
+            this.onEventShow(eventCard, event);
+        } else {
+            // Fallback al log si no hay sistema visual
+            gameLogSystem.addMessage(`🎭 ${event.event}`, 'system', 'info');
+            gameLogSystem.addMessage(event.flavor, 'system', 'info');
+        }
     }
     
     private calculateDamageThisTurn(): number {
@@ -331,9 +628,17 @@ class TurnManager {
 
     private executePlayerActionPhase() {
         console.log(`💪 TurnManager: Ejecutando fase de acción del jugador`);
-        gameLogSystem.addMessage(`Turno ${gameStateManager.turn}: Es tu turno. Tienes ${gameStateManager.maxAP} PA.`, 'player', 'info');
-        gameStateManager.pa = gameStateManager.maxAP;
+        const actionPoints = Math.max(0, gameStateManager.maxAP + statusEffectSystem.getActionPointModifier('PLAYER'));
+        gameLogSystem.addMessage(`Turno ${gameStateManager.turn}: Es tu turno. Tienes ${actionPoints} PA.`, 'player', 'info');
+        gameStateManager.pa = actionPoints;
         console.log(`💪 TurnManager: PA del jugador restablecidos a: ${gameStateManager.pa}`);
+
+        // El Eco anuncia su próximo ataque para que el jugador pueda prepararse
+        ecoAI.commitIntent();
+
+        // Guardar con la fase ya preparada y antes de que las opciones dejen una elección pendiente
+        saveGameManager.markActionPhaseReady();
+        scenarioEventsEngine.offerPendingOptions();
     }
 
     private executeEcoAttackPhase() {
@@ -348,10 +653,15 @@ class TurnManager {
             console.warn('⚠️ TurnManager: No se pudo cambiar a música de tensión:', error);
         });
         
-        console.log(`🧪 TurnManager: Llamando a ecoAI.takeTurn()`);
-        ecoAI.takeTurn();
+        const skipStatus = statusEffectSystem.getTurnSkippingStatus('ECO');
+        if (skipStatus) {
+            gameLogSystem.addMessage(`${skipStatus.icon} El Eco pierde su turno (${skipStatus.name}).`, 'eco', 'info');
+        } else {
+            console.log(`🧪 TurnManager: Llamando a ecoAI.takeTurn()`);
+            ecoAI.takeTurn();
+        }
         
-        setTimeout(() => {
+        gameClock.schedule(() => {
             console.log(`⏱️ TurnManager: Timeout completado, verificando fase actual`);
             if (gameStateManager.phase === GamePhase.ECO_ATTACK) {
                 console.log(`➡️ TurnManager: Avanzando de ECO_ATTACK a MAINTENANCE`);
@@ -371,51 +681,17 @@ class TurnManager {
 
     private executeMaintenancePhase() {
         gameLogSystem.addMessage(`Turn ${gameStateManager.turn}: Maintenance Phase`, 'system', 'info');
+        gameEventBus.publish('MaintenanceStarted', { turn: gameStateManager.turn });
+        statusEffectSystem.tick('ECO_TURN_END');
         deckManager.discard(gameStateManager.hand);
         gameStateManager.hand = [];
         hallucinationSystem.increase(1);
-        this.drawPlayerHand(gameStateManager.maxHandSize);
+        // Los eventos en juego pueden cambiar el tamaño de la mano
+        this.drawPlayerHand(Math.max(0, gameStateManager.maxHandSize + environmentSystem.getHandSizeModifier()));
+        gameEventBus.publish('TurnEnded', { turn: gameStateManager.turn });
         gameStateManager.turn++;
     }
-    
-    /**
-     * Reproduce efectos de sonido específicos según el tipo de carta jugada
-     */
-    private playCardSoundEffect(card: Card) {
-        const effectVolume = 0.7;
-        
-        switch (card.suit) {
-            case 'Spades': // Ataques - sonidos de golpe/corte
-                const attackSounds = ['attack-hit-1', 'attack-hit-2', 'attack-hit-3', 'attack-cut-1', 'attack-cut-2'];
-                const randomAttack = attackSounds[Math.floor(Math.random() * attackSounds.length)];
-                audioManager.playEffect(randomAttack as any, effectVolume);
-                break;
-                
-            case 'Hearts': // Curación/vida - sonido suave
-                audioManager.playEffect('treasure-1', effectVolume * 0.8); // Más suave para curación
-                break;
-                
-            case 'Clubs': // Reparación/utilidad - sonido mecánico
-                audioManager.playEffect('menu-select', effectVolume);
-                break;
-                
-            case 'Diamonds': // Recursos/especiales - sonido brillante
-                const treasureSounds = ['treasure-1', 'treasure-2', 'treasure-3'];
-                const randomTreasure = treasureSounds[Math.floor(Math.random() * treasureSounds.length)];
-                audioManager.playEffect(randomTreasure as any, effectVolume);
-                break;
-                
-            default:
-                audioManager.playEffect('menu-select', effectVolume);
-        }
-        
-        // Para cartas especiales o de alto valor, agregar efecto adicional
-        if (['J', 'Q', 'K', 'A'].includes(card.rank)) {
-            setTimeout(() => {
-                audioManager.playEffect('attack-special', effectVolume * 0.6);
-            }, 200);
-        }
-    }
+
 }
 
 export const turnManager = new TurnManager();
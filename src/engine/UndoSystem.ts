@@ -0,0 +1,118 @@
+// src/engine/UndoSystem.ts
+
+/**
+ * Deshacer acciones del jugador dentro de la fase de acción.
+ * Antes de cada acción se guarda una instantánea del motor (estadísticas, mano,
+ * mazos, nodos, puntuación y RNG) en una pila acotada. La pila se vacía al
+ * empezar un turno y en cuanto se revela información oculta, como una carta
+ * robada del mazo, para que deshacer no sirva para espiar.
+ */
+
+import { gameStateManager, GamePhase } from './GameStateManager';
+import { saveGameManager } from './SaveGameManager';
+import type { GameSnapshot } from './SaveGameManager';
+import { chapterManager } from './ChapterManager';
+import { gameLogSystem } from './GameLogSystem';
+import { gameEventBus } from './GameEventBus';
+import { choiceSystem } from './ChoiceSystem';
+
+const MAX_UNDO_STEPS = 10;
+
+interface UndoEntry {
+    label: string; // Acción que se deshace, para el log
+    snapshot: GameSnapshot;
+}
+
+class UndoSystem {
+    private stack: UndoEntry[] = [];
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        gameEventBus.on('CardsDrawn', ({ source }) => {
+            if (source === 'PLAYER') this.revealHiddenInformation();
+        });
+        gameEventBus.on('HallucinationDrawn', () => this.revealHiddenInformation());
+        gameEventBus.on('DeckRevealed', ({ source }) => {
+            if (source === 'PLAYER') this.revealHiddenInformation();
+        });
+        gameEventBus.on('TurnStarted', () => this.reset());
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+
+    /**
+     * El capítulo puede desactivar deshacer (allowUndo: false en hard/nightmare)
+     */
+    get isEnabled(): boolean {
+        return chapterManager.currentChapterConfig?.allowUndo !== false;
+    }
+
+    get canUndo(): boolean {
+        return this.isEnabled
+            && this.stack.length > 0
+            && !gameStateManager.isGameOver
+            && !choiceSystem.isPending
+            && gameStateManager.phase === GamePhase.PLAYER_ACTION;
+    }
+
+    /**
+     * Nombre de la acción que se desharía
+     */
+    get nextUndoLabel(): string | null {
+        return this.stack.length > 0 ? this.stack[this.stack.length - 1].label : null;
+    }
+
+    /**
+     * Guarda el estado previo a una acción ya validada del jugador
+     */
+    capture(label: string) {
+        if (!this.isEnabled || gameStateManager.phase !== GamePhase.PLAYER_ACTION) return;
+
+        this.stack.push({ label, snapshot: saveGameManager.createSnapshot() });
+        if (this.stack.length > MAX_UNDO_STEPS) {
+            this.stack.shift();
+        }
+        this.notify();
+    }
+
+    /**
+     * Revierte la última acción del turno
+     * @returns false si no había nada que deshacer
+     */
+    undo(): boolean {
+        if (!this.canUndo) return false;
+
+        const entry = this.stack.pop()!;
+        saveGameManager.restoreSystems(entry.snapshot);
+        gameLogSystem.addMessage(`↩️ Deshecho: ${entry.label}.`, 'player', 'info');
+        console.log(`↩️ UndoSystem: Deshecha la acción '${entry.label}' (${this.stack.length} restantes)`);
+        this.notify();
+        return true;
+    }
+
+    reset() {
+        if (this.stack.length === 0) return;
+        this.stack = [];
+        this.notify();
+    }
+
+    /**
+     * Tras revelar información oculta no se puede volver a un estado anterior
+     */
+    private revealHiddenInformation() {
+        if (gameStateManager.phase !== GamePhase.PLAYER_ACTION || this.stack.length === 0) return;
+        console.log(`🔒 UndoSystem: Información oculta revelada, historial de deshacer vaciado`);
+        this.reset();
+    }
+}
+
+export const undoSystem = new UndoSystem();
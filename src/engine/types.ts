@@ -72,48 +72,212 @@ export interface VFXEvent {
 export interface GameRules {
   playerActions: PlayerActionRule[];
   ecoAttacks: EcoAttackRule[];
+  triggers?: TriggerRule[];
+  combos?: ComboRule[];
 }
 
 export interface PlayerActionRule {
   id?: string;
   comment?: string;
   condition: RuleCondition;
-  cost: number;
+  cost: RuleCost;
   effects: RuleEffect[];
 }
 
+/**
+ * Coste de una acción en varios recursos. Se paga entero o no se paga:
+ * COR y PV nunca pueden quedar a 0, así que hay que tener más de lo que se gasta.
+ */
+export interface ActionCost {
+  pa?: number;
+  cor?: number;
+  pv?: number;
+  discard?: number; // Cartas de la mano que el jugador elige descartar
+  discardSuit?: string; // Los descartes tienen que ser de este palo (ej: "hearts")
+}
+
+// Nombre de los palos de rules.json (en minúsculas) para los textos
+export const SUIT_NAMES: Record<string, string> = {
+  spades: 'picas',
+  hearts: 'corazones',
+  clubs: 'tréboles',
+  diamonds: 'diamantes',
+};
+
+// Un número es un coste solo en PA (formato original de rules.json)
+export type RuleCost = number | ActionCost;
+
 export interface EcoAttackRule {
+  id?: string;
   comment?: string;
   condition: RuleCondition;
   effects: RuleEffect[];
 }
 
+/**
+ * Condición de una regla. Todos los campos presentes deben cumplirse (Y lógico);
+ * una condición vacía coincide siempre. all/any/not permiten combinarlas.
+ */
 export interface RuleCondition {
+  // Carta
   id?: string;       // ID específico de la carta (ej: "AS")
   suit?: string;     // Palo específico (lowercase para compatibilidad con JSON)
   color?: 'red' | 'black'; // Color de la carta
   rank?: string;     // Rango específico (ej: "A", "K", "Q")
+  valueMin?: number; // Valor mínimo de la carta (inclusive)
+  valueMax?: number; // Valor máximo de la carta (inclusive)
+
+  // Combinadores
+  all?: RuleCondition[]; // Se cumplen todas
+  any?: RuleCondition[]; // Se cumple al menos una
+  not?: RuleCondition;   // No se cumple
+
+  // Estado de la partida
+  ecoPhase?: string | string[]; // Fase actual del Eco (ej: "predator")
+  turnMin?: number;
+  turnMax?: number;
+  playerPvBelow?: number;  // PV del jugador por debajo del umbral
+  playerCorBelow?: number; // COR del jugador por debajo del umbral
+  nodeCollapsed?: string;  // ID de nodo colapsado, o "ANY" para cualquiera
+  nodesCollapsedMin?: number; // Al menos este número de nodos colapsados
+  ecoHpBelow?: number;     // Vida del Eco por debajo del umbral
+  storyFlag?: string | string[]; // Marcas de historia puestas por las opciones de los eventos (todas)
 }
 
 export interface RuleEffect {
   type: RuleEffectType;
-  target: RuleTarget;
+  target?: RuleTarget;     // Los nodos de control (IF, CHANCE, REPEAT) no tienen objetivo
   targetStat?: StatType;
-  value: number | string;  // Puede ser número o fórmula como "CARD_VALUE"
-  properties?: string[];   // Para propiedades adicionales como "PIERCING"
+  value?: number | string; // Puede ser número o fórmula como "CARD_VALUE"
+  properties?: EffectProperty[]; // Modificadores del daño como "PIERCING"
   status?: string;         // Para efectos de estado como "EXPOSED", "BLEEDING"
   duration?: number;       // Para efectos de estado (-1 = permanente)
   targetSource?: string;   // Para efectos como "CHOICE"
+  targetNode?: string;     // DAMAGE_NODE y REPAIR_NODE: un nodo concreto en lugar de RANDOM o CHOICE
+  options?: RuleEffectOption[]; // Para CHOOSE_EFFECT: opciones entre las que elige el jugador
+  transform?: CardTransform;    // Para TRANSFORM_CARD: en qué se convierte la carta
+
+  // Nodos de control
+  condition?: RuleCondition;      // IF: mismos predicados que las reglas, sobre la carta que dispara el efecto
+  then?: RuleEffect[];            // IF: efectos si se cumple la condición
+  else?: RuleEffect[];            // IF y CHANCE: efectos en caso contrario
+  probability?: number | string;  // CHANCE: probabilidad entre 0 y 1 (admite fórmulas)
+  effects?: RuleEffect[];         // CHANCE y REPEAT: efectos a aplicar (REPEAT los repite value veces)
+}
+
+/**
+ * Patrones de las combinaciones de varias cartas:
+ * - PAIR / THREE_OF_A_KIND: 2 / 3 cartas del mismo rango
+ * - RUN: size cartas de rangos consecutivos (el As va antes del 2 o después de la K)
+ * - SAME_SUIT: size cartas del mismo palo
+ */
+export const COMBO_PATTERNS = ['PAIR', 'THREE_OF_A_KIND', 'RUN', 'SAME_SUIT'] as const;
+export type ComboPattern = typeof COMBO_PATTERNS[number];
+
+// Combinación de la sección combos de rules.json. En sus efectos, CARD_VALUE es la suma de las cartas.
+export interface ComboRule {
+  id?: string;
+  name: string;      // Nombre mostrado ("Pareja", "Escalera"...)
+  comment?: string;
+  pattern: ComboPattern;
+  size?: number;     // RUN y SAME_SUIT: número de cartas (3 por defecto)
+  suit?: string;     // Solo con cartas de este palo
+  cost: RuleCost;
+  effects: RuleEffect[];
+}
+
+/**
+ * Momentos de la partida a los que reaccionan los disparadores:
+ * - TURN_START / TURN_END: inicio de la fase de evento / final del mantenimiento
+ * - MAINTENANCE: al comenzar la fase de mantenimiento
+ * - PV_BELOW / COR_BELOW: la estadística baja de threshold (al cruzar el umbral)
+ * - NODE_COLLAPSED / NODE_REPAIRED: un nodo colapsa / queda reparado del todo
+ * - ECO_PHASE_CHANGED: el Eco cambia de fase
+ * - HALLUCINATION_DRAWN: el jugador roba una alucinación (es la carta del disparo)
+ * - DECK_RESHUFFLED: el descarte del jugador vuelve a su mazo
+ */
+export const TRIGGER_HOOKS = [
+  'TURN_START', 'TURN_END', 'MAINTENANCE', 'PV_BELOW', 'COR_BELOW', 'NODE_COLLAPSED',
+  'NODE_REPAIRED', 'ECO_PHASE_CHANGED', 'HALLUCINATION_DRAWN', 'DECK_RESHUFFLED',
+] as const;
+export type TriggerHook = typeof TRIGGER_HOOKS[number];
+
+// Disparador de la sección triggers de rules.json
+export interface TriggerRule {
+  id?: string;
+  comment?: string;
+  hook: TriggerHook;
+  threshold?: number;        // PV_BELOW y COR_BELOW: umbral
+  node?: string;             // NODE_COLLAPSED y NODE_REPAIRED: solo este nodo
+  phase?: string;            // ECO_PHASE_CHANGED: solo al entrar en esta fase
+  condition?: RuleCondition; // Se comprueba al dispararse (mismos predicados que las reglas)
+  message?: string;          // Texto para el registro al dispararse
+  effects: RuleEffect[];
+  oncePerGame?: boolean;
+  cooldown?: number;         // Turnos de espera tras dispararse (1 = como mucho una vez por turno)
 }
 
-export type RuleEffectType = 
-  | 'DEAL_DAMAGE'
-  | 'HEAL_STAT'
-  | 'DRAW_CARDS'
-  | 'DISCARD_CARDS'
-  | 'APPLY_STATUS'
-  | 'REPAIR_NODE'
-  | 'DAMAGE_NODE';
+// Opción de un efecto CHOOSE_EFFECT; value indica cuántas se eligen (1 por defecto)
+export interface RuleEffectOption {
+  label: string;
+  description?: string;
+  effects: RuleEffect[];
+}
+
+export const RULE_EFFECT_TYPES = [
+  'DEAL_DAMAGE',
+  'HEAL_STAT',
+  'DRAW_CARDS',
+  'DISCARD_CARDS',
+  'APPLY_STATUS',
+  'REPAIR_NODE',
+  'DAMAGE_NODE',
+  'CHOOSE_EFFECT',
+  // Movimiento de cartas
+  'SHUFFLE_DISCARD_INTO_DECK', // Baraja el descarte en el mazo (PLAYER o ECO)
+  'PEEK_DECK',                 // Mira las value cartas superiores y las reordena
+  'RETURN_FROM_DISCARD',       // Devuelve value cartas del descarte a la mano
+  'TRANSFORM_CARD',            // Convierte value cartas de la mano según transform
+  // Recursos del jugador
+  'GAIN_PA',                   // PA adicionales en este turno
+  'MODIFY_MAX_STAT',           // Suma value al máximo de targetStat (puede ser negativo)
+  // Eco y alucinaciones
+  'ADD_HALLUCINATION',         // Baraja value alucinaciones en el mazo del jugador
+  'REMOVE_HALLUCINATION',      // Retira value alucinaciones del mazo y el descarte
+  'SKIP_ECO_TURN',             // El Eco pierde sus próximos value turnos
+  'HEAL_ECO',                  // El Eco recupera value HP
+  'ECO_DRAW',                  // El Eco roba value cartas a su mano
+  // Control de flujo
+  'IF',
+  'CHANCE',
+  'REPEAT',
+] as const;
+export type RuleEffectType = typeof RULE_EFFECT_TYPES[number];
+
+// Transformación de TRANSFORM_CARD; los campos omitidos conservan el valor de la carta
+export interface CardTransform {
+  suit?: Suit;
+  rank?: string;  // El valor y la imagen se toman de la carta de la baraja con ese rango
+  value?: number; // Fuerza un valor distinto del de la baraja
+}
+
+/**
+ * Propiedades de los efectos de daño frente a las defensas del Eco:
+ * - PIERCING: ignora la armadura y la reducción de daño (el escudo sí absorbe)
+ * - TRUE_DAMAGE: ignora todas las defensas, incluido el escudo
+ * - LIFESTEAL: el atacante recupera la mitad del daño infligido a la vida
+ * - SPLASH_NODES: el daño detenido por las defensas rebota en un nodo al azar
+ *   (contra el jugador, que no tiene defensas, rebota la mitad del daño)
+ */
+export const EFFECT_PROPERTIES = ['PIERCING', 'TRUE_DAMAGE', 'LIFESTEAL', 'SPLASH_NODES'] as const;
+export type EffectProperty = typeof EFFECT_PROPERTIES[number];
+
+// Defensas del Eco configuradas por fase en eco.json
+export interface EcoDefense {
+  armor?: number;           // Daño que se resta a cada golpe
+  shield?: number;          // Puntos de escudo al entrar en la fase; absorben daño antes que la vida
+  damageReduction?: number; // % de reducción del daño tras la armadura
+}
 
 export type RuleTarget = 
   | 'PLAYER'
@@ -127,10 +291,95 @@ export type StatType =
   | 'COR'  // Player sanity
   | 'PA';  // Player action points
 
+// Estados alterados (sangrado, expuesto, regeneración...)
+export type StatusTickPhase =
+  | 'TURN_START'      // Al comenzar el turno (fase de evento)
+  | 'PLAYER_TURN_END' // Al terminar la fase de acción del jugador
+  | 'ECO_TURN_END';   // Al terminar el ataque del Eco
+
+/**
+ * Definición de un estado. Los valores numéricos se aplican por acumulación.
+ * Los escenarios pueden declarar estados nuevos o redefinir los del sistema en statuses.json.
+ */
+export interface StatusDefinition {
+  id: string;               // Identificador usado en APPLY_STATUS (ej: "BLEEDING")
+  name: string;             // Nombre mostrado
+  description: string;
+  icon: string;             // Emoji mostrado en el retrato
+  kind: 'BUFF' | 'DEBUFF';
+  maxStacks?: number;       // Acumulaciones máximas (1 por defecto)
+  tickPhase?: StatusTickPhase; // Cuándo se dispara y descuenta la duración (TURN_START por defecto)
+  perTurn?: {
+    damage?: number;        // Daño en cada tick
+    heal?: number;          // Curación en cada tick
+    stat?: StatType;        // Estadística del jugador afectada (PV por defecto; el Eco solo tiene HP)
+  };
+  modifiers?: {
+    damageDealtPercent?: number; // % sobre el daño que inflige el portador
+    damageTakenPercent?: number; // % sobre el daño que recibe
+    healingPercent?: number;     // % sobre la curación que recibe
+    actionPoints?: number;       // PA adicionales al comenzar el turno
+  };
+  blockedSuits?: Suit[];    // Palos que el portador no puede jugar
+  consumeOnHit?: boolean;   // Se retira al recibir daño
+  skipsTurn?: boolean;      // El portador pierde su turno (solo el Eco)
+}
+
 // Eventos dinámicos con nuevo formato
 export interface DynamicEvent {
   id: string;
   event: string;    // Nombre del evento
   flavor: string;   // Texto narrativo
   effects: RuleEffect[]; // Efectos usando el mismo sistema
+  options?: EventOption[]; // De 2 a 4 opciones entre las que elige el jugador tras los efectos
+  persistent?: PersistentEventConfig; // Sigue en juego varios turnos (effects son los de inicio)
+}
+
+/**
+ * Evento ambiental que sigue en juego tras revelarse: dura unos turnos o hasta que se
+ * cumple su condición de fin, y mientras tanto su carta queda fuera del mazo.
+ */
+export interface PersistentEventConfig {
+  duration?: number;            // Turnos en juego, contando el de inicio (sin límite si se omite)
+  endCondition?: RuleCondition; // Termina al comenzar un turno en que se cumpla
+  perTurn?: RuleEffect[];       // Al comenzar cada turno mientras sigue activo
+  onEnd?: RuleEffect[];         // Al terminar por duración o condición (no al despejarlo)
+  modifiers?: {
+    handSize?: number;          // Cartas de más o de menos al rellenar la mano
+    nodeDamagePercent?: number; // % sobre el daño que reciben los nodos
+  };
+  clear?: {                     // Acción del jugador para terminarlo antes de tiempo
+    label: string;
+    cost: RuleCost;
+    effects?: RuleEffect[];
+  };
+}
+
+/**
+ * Opción de un evento con elección. Las que no cumplen sus requisitos se muestran
+ * bloqueadas; la elegida paga su coste, aplica sus efectos y deja sus marcas de historia.
+ */
+export interface EventOption {
+  label: string;
+  description?: string;
+  cost?: RuleCost;           // Se paga al elegirla (PA del turno, COR, PV, descartes)
+  condition?: RuleCondition; // Requisito de estado de la partida (incluidas las marcas de historia)
+  effects: RuleEffect[];
+  setFlags?: string[];       // Marcas de historia que pueden comprobar eventos y narrativa posteriores
+  outcome?: 'success' | 'failure'; // Resultado para la puntuación (success por defecto)
+}
+
+/**
+ * Hito de la cronología del escenario (events-crono.json). Los hitos llegan en
+ * orden, como mucho uno por turno, en la fase de evento: el siguiente pendiente
+ * se alcanza cuando ha llegado su turno y se cumple su condición.
+ */
+export interface Milestone {
+  id: string;
+  name: string;
+  description: string;
+  image?: string;            // Ilustración prevista (aún sin asset): se presenta como carta
+  turn?: number;             // No antes de este turno
+  condition?: RuleCondition; // Estado de la partida (vida del Eco, nodos colapsados...)
+  effects: RuleEffect[];
 }